@@ -0,0 +1,74 @@
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, Extension} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+
+const BlockEnds: {[keyword: string]: string} = {
+  if: "endif", for: "endfor", foreach: "endforeach", while: "endwhile", switch: "endswitch"
+}
+
+// Check whether the text starts with a parenthesized expression that
+// covers all of it.
+function parenthesized(text: string) {
+  if (text[0] != "(") return false
+  for (let i = 0, depth = 0; i < text.length; i++) {
+    if (text[i] == "(") depth++
+    else if (text[i] == ")" && --depth == 0) return i == text.length - 1
+  }
+  return false
+}
+
+function inCode(state: EditorState, pos: number) {
+  for (let node = syntaxTree(state).resolveInner(pos, -1); node; node = node.parent!) {
+    if (/String|Comment|^Text$/.test(node.name)) return false
+    if (node.type.isTop) return true
+  }
+  return true
+}
+
+const closeColonBlock = EditorView.inputHandler.of((view, from, to, text) => {
+  let {state} = view
+  if (text != ":" || from != to || view.composing || state.readOnly) return false
+  let line = state.doc.lineAt(from), header = /^(\s*)(if|for|foreach|while|switch)\s*(\(.*\))\s*$/i.exec(state.sliceDoc(line.from, from))
+  if (!header || !parenthesized(header[3]) || /\S/.test(state.sliceDoc(to, line.to)) || !inCode(state, from)) return false
+  let indent = header[1], end = BlockEnds[header[2].toLowerCase()]
+  // Leave blocks that already have a body or a closing keyword alone
+  for (let next = line.number + 1; next <= state.doc.lines; next++) {
+    let nextLine = state.doc.line(next).text
+    if (!/\S/.test(nextLine)) continue
+    let nextIndent = /^\s*/.exec(nextLine)![0]
+    if (nextIndent.length > indent.length ||
+        nextIndent.length == indent.length && new RegExp("^(" + end + "|else|elseif)\\b", "i").test(nextLine.trim()))
+      return false
+    break
+  }
+  view.dispatch({
+    changes: {from, insert: ":\n" + indent + end + ";"},
+    selection: {anchor: from + 1},
+    userEvent: "input.type"
+  })
+  return true
+})
+
+const closePhpTag = EditorView.inputHandler.of((view, from, to, text) => {
+  let {state} = view
+  if (text != "p" || from != to || view.composing || state.readOnly || state.sliceDoc(from - 4, from) != "<?ph") return false
+  let tree = syntaxTree(state)
+  // Only in templates, not at the start of a PHP file
+  if (tree.topNode.name != "Template" || !/\S/.test(state.sliceDoc(0, from - 4)) ||
+      tree.resolveInner(from - 4, 1).name != "PhpOpen") return false
+  let rest = state.sliceDoc(from), close = rest.indexOf("?>"), open = rest.indexOf("<?")
+  if (close > -1 && (open < 0 || close < open)) return false
+  view.dispatch({
+    changes: {from, insert: "p  ?>"},
+    selection: {anchor: from + 2},
+    userEvent: "input.type"
+  })
+  return true
+})
+
+/// Input handlers that insert the closing keyword (`endif;`,
+/// `endforeach;`, and so on) when a colon is typed to start the body
+/// of a control statement using the alternative syntax, and a closing
+/// `?>` when `<?php` is typed inside a template. Included in
+/// [`php`](#lang-php.php) by default.
+export const autoCloseBlocks: Extension = [closeColonBlock, closePhpTag]
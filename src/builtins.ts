@@ -0,0 +1,2555 @@
+// Member tables for PHP's built-in classes and interfaces, written
+// as stub declarations. The first line of each entry declares the
+// class, followed by a `//` line describing it, and lines declaring
+// its constants, properties, and methods.
+export const classStubs: readonly string[] = [
+`interface Traversable
+  // Interface to detect if a class is traversable using foreach.`,
+
+`interface Iterator extends Traversable
+  // Interface for external iterators or objects that can be iterated themselves internally
+  current(): mixed
+  key(): mixed
+  next(): void
+  rewind(): void
+  valid(): bool`,
+
+`interface IteratorAggregate extends Traversable
+  // Interface to create an external iterator
+  getIterator(): Iterator`,
+
+`interface ArrayAccess
+  // Interface to provide accessing objects as arrays
+  offsetExists(mixed $offset): bool
+  offsetGet(mixed $offset): mixed
+  offsetSet(mixed $offset, mixed $value): void
+  offsetUnset(mixed $offset): void`,
+
+`interface Countable
+  // Classes implementing Countable can be used with the count() function
+  count(): int`,
+
+`interface JsonSerializable
+  // Objects implementing JsonSerializable can customize their JSON representation when encoded with json_encode()
+  jsonSerialize(): mixed`,
+
+`interface Stringable
+  // Denotes a class as having a __toString() method
+  __toString(): string`,
+
+`interface UnitEnum
+  // Interface automatically applied to all enumerations
+  string $name
+  static cases(): array`,
+
+`interface BackedEnum extends UnitEnum
+  // Interface automatically applied to backed enumerations
+  int|string $value
+  static from(int|string $value): static
+  static tryFrom(int|string $value): ?static`,
+
+`class stdClass
+  // A generic empty class with dynamic properties.`,
+
+`class Closure
+  // Class used to represent anonymous functions
+  static bind(Closure $closure, ?object $newThis, object|string|null $newScope = "static"): ?Closure
+  bindTo(?object $newThis, object|string|null $newScope = "static"): ?Closure
+  call(object $newThis, mixed ...$args): mixed
+  static fromCallable(callable $callback): Closure
+  __invoke(mixed ...$args): mixed`,
+
+`class Generator implements Iterator
+  // Generator objects are returned from generators
+  current(): mixed
+  getReturn(): mixed
+  key(): mixed
+  next(): void
+  rewind(): void
+  send(mixed $value): mixed
+  throw(Throwable $exception): mixed
+  valid(): bool`,
+
+`interface Throwable extends Stringable
+  // The base interface for any object that can be thrown via a throw statement
+  getMessage(): string
+  getCode(): int
+  getFile(): string
+  getLine(): int
+  getTrace(): array
+  getTraceAsString(): string
+  getPrevious(): ?Throwable`,
+
+`class Exception implements Throwable
+  // The base class for all user exceptions
+  protected string $message
+  protected int $code
+  protected string $file
+  protected int $line
+  __construct(string $message = "", int $code = 0, ?Throwable $previous = null)
+  getMessage(): string
+  getCode(): int
+  getFile(): string
+  getLine(): int
+  getTrace(): array
+  getTraceAsString(): string
+  getPrevious(): ?Throwable
+  __toString(): string`,
+
+`class ErrorException extends Exception
+  // An error exception, for converting errors to exceptions
+  protected int $severity
+  __construct(string $message = "", int $code = 0, int $severity = E_ERROR, ?string $filename = null, ?int $line = null, ?Throwable $previous = null)
+  getSeverity(): int`,
+
+`class Error implements Throwable
+  // The base class for all internal PHP errors
+  protected string $message
+  protected int $code
+  protected string $file
+  protected int $line
+  __construct(string $message = "", int $code = 0, ?Throwable $previous = null)
+  getMessage(): string
+  getCode(): int
+  getFile(): string
+  getLine(): int
+  getTrace(): array
+  getTraceAsString(): string
+  getPrevious(): ?Throwable
+  __toString(): string`,
+
+`class CompileError extends Error
+  // Thrown for some compilation errors.`,
+`class ParseError extends CompileError
+  // Thrown when an error occurs while parsing PHP code, such as when eval() is called.`,
+`class TypeError extends Error
+  // Thrown when a value is not of the expected type.`,
+`class ArgumentCountError extends TypeError
+  // Thrown when too few arguments are passed to a function or method.`,
+`class ValueError extends Error
+  // Thrown when an argument has the correct type but an incorrect value.`,
+`class ArithmeticError extends Error
+  // Thrown when an error occurs while performing mathematical operations.`,
+`class DivisionByZeroError extends ArithmeticError
+  // Thrown when an attempt is made to divide a number by zero.`,
+`class AssertionError extends Error
+  // Thrown when an assertion made via assert() fails.`,
+`class UnhandledMatchError extends Error
+  // Thrown when the subject passed to a match expression is not handled by any arm.`,
+`class LogicException extends Exception
+  // Exception that represents an error in the program logic.`,
+`class BadFunctionCallException extends LogicException
+  // Thrown if a callback refers to an undefined function or if some arguments are missing.`,
+`class BadMethodCallException extends BadFunctionCallException
+  // Thrown if a callback refers to an undefined method or if some arguments are missing.`,
+`class DomainException extends LogicException
+  // Thrown if a value does not adhere to a defined valid data domain.`,
+`class InvalidArgumentException extends LogicException
+  // Thrown if an argument is not of the expected type.`,
+`class LengthException extends LogicException
+  // Thrown if a length is invalid.`,
+`class OutOfRangeException extends LogicException
+  // Thrown when an illegal index was requested.`,
+`class RuntimeException extends Exception
+  // Thrown if an error which can only be found on runtime occurs.`,
+`class OutOfBoundsException extends RuntimeException
+  // Thrown if a value is not a valid key.`,
+`class OverflowException extends RuntimeException
+  // Thrown when adding an element to a full container.`,
+`class RangeException extends RuntimeException
+  // Thrown to indicate range errors during program execution.`,
+`class UnderflowException extends RuntimeException
+  // Thrown when performing an invalid operation on an empty container.`,
+`class UnexpectedValueException extends RuntimeException
+  // Thrown if a value does not match with a set of values.`,
+`class JsonException extends Exception
+  // Thrown if JSON_THROW_ON_ERROR is set and json_encode() or json_decode() fails.`,
+
+`interface DateTimeInterface
+  // Interface shared by DateTime and DateTimeImmutable
+  const ATOM
+  const COOKIE
+  const ISO8601
+  const RFC822
+  const RFC850
+  const RFC1036
+  const RFC1123
+  const RFC7231
+  const RFC2822
+  const RFC3339
+  const RFC3339_EXTENDED
+  const RSS
+  const W3C
+  diff(DateTimeInterface $targetObject, bool $absolute = false): DateInterval
+  format(string $format): string
+  getOffset(): int
+  getTimestamp(): int
+  getTimezone(): DateTimeZone|false`,
+
+`class DateTime implements DateTimeInterface
+  // Representation of a mutable date and time
+  __construct(string $datetime = "now", ?DateTimeZone $timezone = null)
+  add(DateInterval $interval): DateTime
+  static createFromFormat(string $format, string $datetime, ?DateTimeZone $timezone = null): DateTime|false
+  static createFromImmutable(DateTimeImmutable $object): static
+  static createFromInterface(DateTimeInterface $object): DateTime
+  static getLastErrors(): array|false
+  modify(string $modifier): DateTime|false
+  setDate(int $year, int $month, int $day): DateTime
+  setISODate(int $year, int $week, int $dayOfWeek = 1): DateTime
+  setTime(int $hour, int $minute, int $second = 0, int $microsecond = 0): DateTime
+  setTimestamp(int $timestamp): DateTime
+  setTimezone(DateTimeZone $timezone): DateTime
+  sub(DateInterval $interval): DateTime`,
+
+`class DateTimeImmutable implements DateTimeInterface
+  // Representation of an immutable date and time
+  __construct(string $datetime = "now", ?DateTimeZone $timezone = null)
+  add(DateInterval $interval): DateTimeImmutable
+  static createFromFormat(string $format, string $datetime, ?DateTimeZone $timezone = null): DateTimeImmutable|false
+  static createFromMutable(DateTime $object): static
+  static createFromInterface(DateTimeInterface $object): DateTimeImmutable
+  static getLastErrors(): array|false
+  modify(string $modifier): DateTimeImmutable|false
+  setDate(int $year, int $month, int $day): DateTimeImmutable
+  setISODate(int $year, int $week, int $dayOfWeek = 1): DateTimeImmutable
+  setTime(int $hour, int $minute, int $second = 0, int $microsecond = 0): DateTimeImmutable
+  setTimestamp(int $timestamp): DateTimeImmutable
+  setTimezone(DateTimeZone $timezone): DateTimeImmutable
+  sub(DateInterval $interval): DateTimeImmutable`,
+
+`class DateTimeZone
+  // Representation of a time zone
+  const AFRICA
+  const AMERICA
+  const ANTARCTICA
+  const ARCTIC
+  const ASIA
+  const ATLANTIC
+  const AUSTRALIA
+  const EUROPE
+  const INDIAN
+  const PACIFIC
+  const UTC
+  const ALL
+  const ALL_WITH_BC
+  const PER_COUNTRY
+  __construct(string $timezone)
+  getLocation(): array|false
+  getName(): string
+  getOffset(DateTimeInterface $datetime): int
+  getTransitions(int $timestampBegin = PHP_INT_MIN, int $timestampEnd = PHP_INT_MAX): array|false
+  static listAbbreviations(): array
+  static listIdentifiers(int $timezoneGroup = DateTimeZone::ALL, ?string $countryCode = null): array`,
+
+`class DateInterval
+  // Represents a date interval, stored as a fixed amount of time or as a relative string
+  int $y
+  int $m
+  int $d
+  int $h
+  int $i
+  int $s
+  float $f
+  int $invert
+  mixed $days
+  __construct(string $duration)
+  static createFromDateString(string $datetime): DateInterval|false
+  format(string $format): string`,
+
+`class DatePeriod implements IteratorAggregate
+  // Represents a date period, allowing iteration over a set of recurring dates and times
+  const EXCLUDE_START_DATE
+  const INCLUDE_END_DATE
+  getDateInterval(): DateInterval
+  getEndDate(): ?DateTimeInterface
+  getRecurrences(): ?int
+  getStartDate(): DateTimeInterface
+  getIterator(): Iterator`,
+
+`class ArrayObject implements IteratorAggregate, ArrayAccess, Countable
+  // Allows objects to work as arrays
+  const STD_PROP_LIST
+  const ARRAY_AS_PROPS
+  __construct(array|object $array = [], int $flags = 0, string $iteratorClass = ArrayIterator::class)
+  append(mixed $value): void
+  asort(int $flags = SORT_REGULAR): bool
+  count(): int
+  exchangeArray(array|object $array): array
+  getArrayCopy(): array
+  getFlags(): int
+  getIterator(): Iterator
+  getIteratorClass(): string
+  ksort(int $flags = SORT_REGULAR): bool
+  natcasesort(): bool
+  natsort(): bool
+  offsetExists(mixed $key): bool
+  offsetGet(mixed $key): mixed
+  offsetSet(mixed $key, mixed $value): void
+  offsetUnset(mixed $key): void
+  setFlags(int $flags): void
+  setIteratorClass(string $iteratorClass): void
+  uasort(callable $callback): bool
+  uksort(callable $callback): bool`,
+
+`class ArrayIterator implements Iterator, ArrayAccess, Countable
+  // Allows unsetting and modifying values and keys while iterating over arrays and objects
+  __construct(array|object $array = [], int $flags = 0)
+  append(mixed $value): void
+  count(): int
+  current(): mixed
+  getArrayCopy(): array
+  key(): string|int|null
+  next(): void
+  offsetExists(mixed $key): bool
+  offsetGet(mixed $key): mixed
+  offsetSet(mixed $key, mixed $value): void
+  offsetUnset(mixed $key): void
+  rewind(): void
+  seek(int $offset): void
+  valid(): bool`,
+
+`class Directory
+  // Instances are created by calling the dir() function
+  string $path
+  mixed $handle
+  close(): void
+  read(): string|false
+  rewind(): void`,
+
+`class php_user_filter
+  // Base class for user-defined stream filters
+  string $filtername
+  mixed $params
+  mixed $stream
+  filter(mixed $in, mixed $out, int &$consumed, bool $closing): int
+  onClose(): void
+  onCreate(): bool`,
+
+`class ZipArchive implements Countable
+  // A file archive, compressed with Zip
+  const CREATE
+  const EXCL
+  const CHECKCONS
+  const OVERWRITE
+  const RDONLY
+  const FL_NOCASE
+  const FL_NODIR
+  const FL_COMPRESSED
+  const FL_UNCHANGED
+  const FL_OVERWRITE
+  const CM_DEFAULT
+  const CM_STORE
+  const CM_DEFLATE
+  const CM_BZIP2
+  const ER_OK
+  const ER_EXISTS
+  const ER_INCONS
+  const ER_MEMORY
+  const ER_NOENT
+  const ER_NOZIP
+  const ER_OPEN
+  const ER_READ
+  const ER_SEEK
+  const EM_NONE
+  const EM_AES_128
+  const EM_AES_192
+  const EM_AES_256
+  int $lastId
+  int $status
+  int $statusSys
+  int $numFiles
+  string $filename
+  string $comment
+  addEmptyDir(string $dirname, int $flags = 0): bool
+  addFile(string $filepath, string $entryname = "", int $start = 0, int $length = 0, int $flags = ZipArchive::FL_OVERWRITE): bool
+  addFromString(string $name, string $content, int $flags = ZipArchive::FL_OVERWRITE): bool
+  addGlob(string $pattern, int $flags = 0, array $options = []): array|false
+  addPattern(string $pattern, string $path = ".", array $options = []): array|false
+  clearError(): void
+  close(): bool
+  count(): int
+  deleteIndex(int $index): bool
+  deleteName(string $name): bool
+  extractTo(string $pathto, array|string|null $files = null): bool
+  getArchiveComment(int $flags = 0): string|false
+  getArchiveFlag(int $flag, int $flags = 0): int
+  getCommentIndex(int $index, int $flags = 0): string|false
+  getCommentName(string $name, int $flags = 0): string|false
+  getExternalAttributesIndex(int $index, int &$opsys, int &$attr, int $flags = 0): bool
+  getExternalAttributesName(string $name, int &$opsys, int &$attr, int $flags = 0): bool
+  getFromIndex(int $index, int $len = 0, int $flags = 0): string|false
+  getFromName(string $name, int $len = 0, int $flags = 0): string|false
+  getNameIndex(int $index, int $flags = 0): string|false
+  getStatusString(): string
+  getStream(string $name): mixed
+  getStreamIndex(int $index, int $flags = 0): mixed
+  getStreamName(string $name, int $flags = 0): mixed
+  static isCompressionMethodSupported(int $method, bool $enc = true): bool
+  static isEncryptionMethodSupported(int $method, bool $enc = true): bool
+  locateName(string $name, int $flags = 0): int|false
+  open(string $filename, int $flags = 0): bool|int
+  registerCancelCallback(callable $callback): bool
+  registerProgressCallback(float $rate, callable $callback): bool
+  renameIndex(int $index, string $new_name): bool
+  renameName(string $name, string $new_name): bool
+  replaceFile(string $filepath, int $index, int $start = 0, int $length = 0, int $flags = 0): bool
+  setArchiveComment(string $comment): bool
+  setArchiveFlag(int $flag, int $value): bool
+  setCommentIndex(int $index, string $comment): bool
+  setCommentName(string $name, string $comment): bool
+  setCompressionIndex(int $index, int $method, int $compflags = 0): bool
+  setCompressionName(string $name, int $method, int $compflags = 0): bool
+  setEncryptionIndex(int $index, int $method, ?string $password = null): bool
+  setEncryptionName(string $name, int $method, ?string $password = null): bool
+  setExternalAttributesIndex(int $index, int $opsys, int $attr, int $flags = 0): bool
+  setExternalAttributesName(string $name, int $opsys, int $attr, int $flags = 0): bool
+  setMtimeIndex(int $index, int $timestamp, int $flags = 0): bool
+  setMtimeName(string $name, int $timestamp, int $flags = 0): bool
+  setPassword(string $password): bool
+  statIndex(int $index, int $flags = 0): array|false
+  statName(string $name, int $flags = 0): array|false
+  unchangeAll(): bool
+  unchangeArchive(): bool
+  unchangeIndex(int $index): bool
+  unchangeName(string $name): bool`,
+
+`class PDO
+  // Represents a connection between PHP and a database server
+  const PARAM_NULL
+  const PARAM_INT
+  const PARAM_STR
+  const PARAM_BOOL
+  const PARAM_LOB
+  const FETCH_DEFAULT
+  const FETCH_ASSOC
+  const FETCH_NUM
+  const FETCH_BOTH
+  const FETCH_OBJ
+  const FETCH_CLASS
+  const FETCH_COLUMN
+  const FETCH_KEY_PAIR
+  const ATTR_ERRMODE
+  const ATTR_DEFAULT_FETCH_MODE
+  const ATTR_EMULATE_PREPARES
+  const ERRMODE_SILENT
+  const ERRMODE_WARNING
+  const ERRMODE_EXCEPTION
+  __construct(string $dsn, ?string $username = null, ?string $password = null, ?array $options = null)
+  beginTransaction(): bool
+  commit(): bool
+  errorCode(): ?string
+  errorInfo(): array
+  exec(string $statement): int|false
+  getAttribute(int $attribute): mixed
+  static getAvailableDrivers(): array
+  inTransaction(): bool
+  lastInsertId(?string $name = null): string|false
+  prepare(string $query, array $options = []): PDOStatement|false
+  query(string $query, ?int $fetchMode = null, mixed ...$fetchModeArgs): PDOStatement|false
+  quote(string $string, int $type = PDO::PARAM_STR): string|false
+  rollBack(): bool
+  setAttribute(int $attribute, mixed $value): bool`,
+
+`class PDOStatement implements IteratorAggregate
+  // Represents a prepared statement and, after execution, the associated result set
+  string $queryString
+  bindColumn(string|int $column, mixed &$var, int $type = PDO::PARAM_STR, int $maxLength = 0, mixed $driverOptions = null): bool
+  bindParam(string|int $param, mixed &$var, int $type = PDO::PARAM_STR, int $maxLength = 0, mixed $driverOptions = null): bool
+  bindValue(string|int $param, mixed $value, int $type = PDO::PARAM_STR): bool
+  closeCursor(): bool
+  columnCount(): int
+  errorCode(): ?string
+  errorInfo(): array
+  execute(?array $params = null): bool
+  fetch(int $mode = PDO::FETCH_DEFAULT, int $cursorOrientation = PDO::FETCH_ORI_NEXT, int $cursorOffset = 0): mixed
+  fetchAll(int $mode = PDO::FETCH_DEFAULT, mixed ...$args): array
+  fetchColumn(int $column = 0): mixed
+  fetchObject(?string $class = "stdClass", array $constructorArgs = []): object|false
+  getIterator(): Iterator
+  rowCount(): int
+  setFetchMode(int $mode, mixed ...$args): bool`,
+
+`class PDOException extends RuntimeException
+  // Represents an error raised by PDO
+  ?array $errorInfo`
+]
+
+// Signatures and short descriptions of PHP's built-in functions,
+// grouped by the extension that provides them. Each entry is a
+// signature line, optionally followed by `@since`, `@deprecated`,
+// or `@removed` version tags, and an indented description line.
+export const functionStubs: {[extension: string]: string} = {
+  Core: `
+error_reporting(?int $error_level = null): int
+  Set which PHP errors are reported
+set_error_handler(?callable $callback, int $error_levels = E_ALL): ?callable
+  Set a user-defined error handler function
+restore_error_handler(): bool
+  Restore the previous error handler function
+set_exception_handler(?callable $callback): ?callable
+  Set a user-defined exception handler function
+restore_exception_handler(): bool
+  Restore the previously defined exception handler function
+trigger_error(string $message, int $error_level = E_USER_NOTICE): bool
+  Generate a user-level error/warning/notice message
+user_error(string $message, int $error_level = E_USER_NOTICE): bool
+  Alias of trigger_error
+debug_backtrace(int $options = DEBUG_BACKTRACE_PROVIDE_OBJECT, int $limit = 0): array
+  Generate a backtrace
+debug_print_backtrace(int $options = 0, int $limit = 0): void
+  Print a backtrace
+class_exists(string $class, bool $autoload = true): bool
+  Check if the class has been defined
+enum_exists(string $enum, bool $autoload = true): bool @since 8.1
+  Checks if the enum has been defined
+interface_exists(string $interface, bool $autoload = true): bool
+  Checks if the interface has been defined
+trait_exists(string $trait, bool $autoload = true): bool
+  Checks if the trait exists
+get_called_class(): string
+  The "Late Static Binding" class name
+get_class(object $object): string
+  Returns the name of the class of an object
+get_class_methods(object|string $object_or_class): array
+  Gets the class methods' names
+get_class_vars(string $class): array
+  Get the default properties of the class
+get_declared_classes(): array
+  Returns an array with the name of the defined classes
+get_declared_interfaces(): array
+  Returns an array of all declared interfaces
+get_declared_traits(): array
+  Returns an array of all declared traits
+get_mangled_object_vars(object $object): array @since 7.4
+  Returns an array of mangled object properties
+get_object_vars(object $object): array
+  Gets the properties of the given object
+get_parent_class(object|string $object_or_class): string|false
+  Retrieves the parent class name for object or class
+is_a(mixed $object_or_class, string $class, bool $allow_string = false): bool
+  Checks whether the object is of a given type or subtype
+is_subclass_of(mixed $object_or_class, string $class, bool $allow_string = true): bool
+  Checks if the object has this class as one of its parents or implements it
+method_exists(object|string $object_or_class, string $method): bool
+  Checks if the class method exists
+property_exists(object|string $object_or_class, string $property): bool
+  Checks if the object or class has a property
+class_alias(string $class, string $alias, bool $autoload = true): bool
+  Creates an alias for a class
+__autoload(string $class): void @deprecated 7.2 @removed 8.0
+  Attempt to load undefined class
+create_function(string $args, string $code): string @deprecated 7.2 @removed 8.0
+  Create a function dynamically by evaluating a string of code
+func_get_arg(int $position): mixed
+  Return an item from the argument list
+func_get_args(): array
+  Returns an array comprising a function's argument list
+func_num_args(): int
+  Returns the number of arguments passed to the function
+function_exists(string $function): bool
+  Return true if the given function has been defined
+define(string $constant_name, mixed $value, bool $case_insensitive = false): bool
+  Defines a named constant
+defined(string $constant_name): bool
+  Checks whether a given named constant exists
+get_defined_functions(bool $exclude_disabled = true): array
+  Returns an array of all defined functions
+get_resource_id(mixed $resource): int @since 8.0
+  Returns an integer identifier for the given resource
+get_resource_type(mixed $resource): string
+  Returns the resource type
+get_defined_vars(): array
+  Returns an array of all defined variables
+each(array &$array): array @deprecated 7.2 @removed 8.0
+  Return the current key and value pair from an array and advance the array cursor
+strlen(string $string): int
+  Get string length
+strcmp(string $string1, string $string2): int
+  Binary safe string comparison
+strncmp(string $string1, string $string2, int $length): int
+  Binary safe string comparison of the first n characters
+strcasecmp(string $string1, string $string2): int
+  Binary safe case-insensitive string comparison
+strncasecmp(string $string1, string $string2, int $length): int
+  Binary safe case-insensitive string comparison of the first n characters`,
+
+  standard: `
+error_clear_last(): void
+  Clear the most recent error
+error_get_last(): ?array
+  Get the last occurred error
+error_log(string $message, int $message_type = 0, ?string $destination = null, ?string $additional_headers = null): bool
+  Send an error message to the defined error handling routines
+chdir(string $directory): bool
+  Change directory
+chroot(string $directory): bool
+  Change the root directory
+closedir(mixed $dir_handle = null): void
+  Close directory handle
+dir(string $directory, mixed $context = null): Directory|false
+  Return an instance of the Directory class
+getcwd(): string|false
+  Gets the current working directory
+opendir(string $directory, mixed $context = null): mixed
+  Open directory handle
+readdir(mixed $dir_handle = null): string|false
+  Read entry from directory handle
+rewinddir(mixed $dir_handle = null): void
+  Rewind directory handle
+scandir(string $directory, int $sorting_order = SCANDIR_SORT_ASCENDING, mixed $context = null): array|false
+  List files and directories inside the specified path
+basename(string $path, string $suffix = ""): string
+  Returns trailing name component of path
+chgrp(string $filename, string|int $group): bool
+  Changes file group
+chmod(string $filename, int $permissions): bool
+  Changes file mode
+chown(string $filename, string|int $user): bool
+  Changes file owner
+clearstatcache(bool $clear_realpath_cache = false, string $filename = ""): void
+  Clears file status cache
+copy(string $from, string $to, mixed $context = null): bool
+  Copies file
+dirname(string $path, int $levels = 1): string
+  Returns a parent directory's path
+disk_free_space(string $directory): float|false
+  Returns available space on filesystem or disk partition
+disk_total_space(string $directory): float|false
+  Returns the total size of a filesystem or disk partition
+diskfreespace(string $directory): float|false
+  Alias of disk_free_space
+fclose(mixed $stream): bool
+  Closes an open file pointer
+fdatasync(mixed $stream): bool @since 8.1
+  Synchronizes data (but not meta-data) to the file
+feof(mixed $stream): bool
+  Tests for end-of-file on a file pointer
+fflush(mixed $stream): bool
+  Flushes the output to a file
+fgetc(mixed $stream): string|false
+  Gets character from file pointer
+fgetcsv(mixed $stream, ?int $length = null, string $separator = ",", string $enclosure = "\\"", string $escape = "\\\\"): array|false
+  Gets line from file pointer and parse for CSV fields
+fgets(mixed $stream, ?int $length = null): string|false
+  Gets line from file pointer
+fgetss(mixed $handle, int $length = 0, string $allowable_tags = ""): string|false @deprecated 7.3 @removed 8.0
+  Gets line from file pointer and strip HTML tags
+file_exists(string $filename): bool
+  Checks whether a file or directory exists
+file_get_contents(string $filename, bool $use_include_path = false, mixed $context = null, int $offset = 0, ?int $length = null): string|false
+  Reads entire file into a string
+file_put_contents(string $filename, mixed $data, int $flags = 0, mixed $context = null): int|false
+  Write data to a file
+file(string $filename, int $flags = 0, mixed $context = null): array|false
+  Reads entire file into an array
+fileatime(string $filename): int|false
+  Gets last access time of file
+filectime(string $filename): int|false
+  Gets inode change time of file
+filegroup(string $filename): int|false
+  Gets file group
+fileinode(string $filename): int|false
+  Gets file inode
+filemtime(string $filename): int|false
+  Gets file modification time
+fileowner(string $filename): int|false
+  Gets file owner
+fileperms(string $filename): int|false
+  Gets file permissions
+filesize(string $filename): int|false
+  Gets file size
+filetype(string $filename): string|false
+  Gets file type
+flock(mixed $stream, int $operation, int &$would_block = null): bool
+  Portable advisory file locking
+fnmatch(string $pattern, string $filename, int $flags = 0): bool
+  Match filename against a pattern
+fopen(string $filename, string $mode, bool $use_include_path = false, mixed $context = null): mixed
+  Opens file or URL
+fpassthru(mixed $stream): int
+  Output all remaining data on a file pointer
+fputcsv(mixed $stream, array $fields, string $separator = ",", string $enclosure = "\\"", string $escape = "\\\\", string $eol = "\\n"): int|false
+  Format line as CSV and write to file pointer
+fputs(mixed $stream, string $data, ?int $length = null): int|false
+  Alias of fwrite
+fread(mixed $stream, int $length): string|false
+  Binary-safe file read
+fscanf(mixed $stream, string $format, mixed &...$vars): array|int|false|null
+  Parses input from a file according to a format
+fseek(mixed $stream, int $offset, int $whence = SEEK_SET): int
+  Seeks on a file pointer
+fstat(mixed $stream): array|false
+  Gets information about a file using an open file pointer
+fsync(mixed $stream): bool @since 8.1
+  Synchronizes changes to the file (including meta-data)
+ftell(mixed $stream): int|false
+  Returns the current position of the file read/write pointer
+ftruncate(mixed $stream, int $size): bool
+  Truncates a file to a given length
+fwrite(mixed $stream, string $data, ?int $length = null): int|false
+  Binary-safe file write
+glob(string $pattern, int $flags = 0): array|false
+  Find pathnames matching a pattern
+is_dir(string $filename): bool
+  Tells whether the filename is a directory
+is_executable(string $filename): bool
+  Tells whether the filename is executable
+is_file(string $filename): bool
+  Tells whether the filename is a regular file
+is_link(string $filename): bool
+  Tells whether the filename is a symbolic link
+is_readable(string $filename): bool
+  Tells whether a file exists and is readable
+is_uploaded_file(string $filename): bool
+  Tells whether the file was uploaded via HTTP POST
+is_writable(string $filename): bool
+  Tells whether the filename is writable
+is_writeable(string $filename): bool
+  Alias of is_writable
+lchgrp(string $filename, string|int $group): bool
+  Changes group ownership of symlink
+lchown(string $filename, string|int $user): bool
+  Changes user ownership of symlink
+link(string $target, string $link): bool
+  Create a hard link
+linkinfo(string $path): int|false
+  Gets information about a link
+lstat(string $filename): array|false
+  Gives information about a file or symbolic link
+mkdir(string $directory, int $permissions = 0777, bool $recursive = false, mixed $context = null): bool
+  Makes directory
+move_uploaded_file(string $from, string $to): bool
+  Moves an uploaded file to a new location
+parse_ini_file(string $filename, bool $process_sections = false, int $scanner_mode = INI_SCANNER_NORMAL): array|false
+  Parse a configuration file
+parse_ini_string(string $ini_string, bool $process_sections = false, int $scanner_mode = INI_SCANNER_NORMAL): array|false
+  Parse a configuration string
+pathinfo(string $path, int $flags = PATHINFO_ALL): array|string
+  Returns information about a file path
+pclose(mixed $handle): int
+  Closes process file pointer
+popen(string $command, string $mode): mixed
+  Opens process file pointer
+readfile(string $filename, bool $use_include_path = false, mixed $context = null): int|false
+  Outputs a file
+readlink(string $path): string|false
+  Returns the target of a symbolic link
+realpath_cache_get(): array
+  Get realpath cache entries
+realpath_cache_size(): int
+  Get realpath cache size
+realpath(string $path): string|false
+  Returns canonicalized absolute pathname
+rename(string $from, string $to, mixed $context = null): bool
+  Renames a file or directory
+rewind(mixed $stream): bool
+  Rewind the position of a file pointer
+rmdir(string $directory, mixed $context = null): bool
+  Removes directory
+set_file_buffer(mixed $stream, int $size): int
+  Alias of stream_set_write_buffer
+stat(string $filename): array|false
+  Gives information about a file
+symlink(string $target, string $link): bool
+  Creates a symbolic link
+tempnam(string $directory, string $prefix): string|false
+  Create file with unique file name
+tmpfile(): mixed
+  Creates a temporary file
+touch(string $filename, ?int $mtime = null, ?int $atime = null): bool
+  Sets access and modification time of file
+umask(?int $mask = null): int
+  Changes the current umask
+unlink(string $filename, mixed $context = null): bool
+  Deletes a file
+getimagesize(string $filename, array &$image_info = null): array|false
+  Get the size of an image
+getimagesizefromstring(string $string, array &$image_info = null): array|false
+  Get the size of an image from a string
+image_type_to_extension(int $image_type, bool $include_dot = true): string|false
+  Get file extension for image type
+image_type_to_mime_type(int $image_type): string
+  Get Mime-Type for image-type returned by getimagesize, exif_read_data, exif_thumbnail, exif_imagetype
+iptcembed(string $iptc_data, string $filename, int $spool = 0): string|bool
+  Embeds binary IPTC data into a JPEG image
+iptcparse(string $iptc_block): array|false
+  Parse a binary IPTC block into single tags
+getrandmax(): int
+  Show largest possible random value
+lcg_value(): float @deprecated 8.4
+  Combined linear congruential generator
+mt_getrandmax(): int
+  Show largest possible random value
+mt_rand(int $min = UNKNOWN, int $max = UNKNOWN): int
+  Generate a random value via the Mersenne Twister Random Number Generator
+mt_srand(int $seed = 0, int $mode = MT_RAND_MT19937): void
+  Seeds the Mersenne Twister Random Number Generator
+rand(int $min = UNKNOWN, int $max = UNKNOWN): int
+  Generate a random integer
+random_bytes(int $length): string @since 7.0
+  Get cryptographically secure random bytes
+random_int(int $min, int $max): int @since 7.0
+  Get a cryptographically secure, uniformly selected integer
+srand(int $seed = 0, int $mode = MT_RAND_MT19937): void
+  Seed the random number generator
+abs(int|float $num): int|float
+  Absolute value
+ceil(int|float $num): float
+  Round fractions up
+floor(int|float $num): float
+  Round fractions down
+round(int|float $num, int $precision = 0, int $mode = PHP_ROUND_HALF_UP): float
+  Rounds a float
+max(mixed $value, mixed ...$values): mixed
+  Find highest value
+min(mixed $value, mixed ...$values): mixed
+  Find lowest value
+intdiv(int $num1, int $num2): int @since 7.0
+  Integer division
+fmod(float $num1, float $num2): float
+  Returns the floating point remainder (modulo) of the division of the arguments
+fdiv(float $num1, float $num2): float @since 8.0
+  Divides two numbers, according to IEEE 754
+pow(mixed $num, mixed $exponent): int|float|object
+  Exponential expression
+sqrt(float $num): float
+  Square root
+exp(float $num): float
+  Calculates the exponent of e
+log(float $num, float $base = M_E): float
+  Natural logarithm
+log10(float $num): float
+  Base-10 logarithm
+pi(): float
+  Get value of pi
+sin(float $num): float
+  Sine
+cos(float $num): float
+  Cosine
+tan(float $num): float
+  Tangent
+atan2(float $y, float $x): float
+  Arc tangent of two variables
+hypot(float $x, float $y): float
+  Calculate the length of the hypotenuse of a right-angle triangle
+is_nan(float $num): bool
+  Finds whether a value is not a number
+is_finite(float $num): bool
+  Finds whether a float is a legal finite number
+is_infinite(float $num): bool
+  Finds whether a float is infinite
+base_convert(string $num, int $frombase, int $tobase): string
+  Convert a number between arbitrary bases
+bindec(string $binary_string): int|float
+  Binary to decimal
+decbin(int $num): string
+  Decimal to binary
+dechex(int $num): string
+  Decimal to hexadecimal
+hexdec(string $hex_string): int|float
+  Hexadecimal to decimal
+decoct(int $num): string
+  Decimal to octal
+octdec(string $octal_string): int|float
+  Octal to decimal
+constant(string $name): mixed
+  Returns the value of a constant
+hrtime(bool $as_number = false): array|int|float|false
+  Get the system's high resolution time
+usleep(int $microseconds): void
+  Delay execution in microseconds
+uniqid(string $prefix = "", bool $more_entropy = false): string
+  Generate a time-based identifier
+password_hash(string $password, string|int|null $algo, array $options = []): string
+  Creates a password hash
+password_verify(string $password, string $hash): bool
+  Verifies that a password matches a hash
+password_needs_rehash(string $hash, string|int|null $algo, array $options = []): bool
+  Checks if the given hash matches the given options
+password_get_info(string $hash): array
+  Returns information about the given hash
+base64_decode(string $string, bool $strict = false): string|false
+  Decodes data encoded with MIME base64
+base64_encode(string $string): string
+  Encodes data with MIME base64
+get_headers(string $url, bool $associative = false, mixed $context = null): array|false
+  Fetches all the headers sent by the server in response to an HTTP request
+get_meta_tags(string $filename, bool $use_include_path = false): array|false
+  Extracts all meta tag content attributes from a file and returns an array
+http_build_query(array|object $data, string $numeric_prefix = "", ?string $arg_separator = null, int $encoding_type = PHP_QUERY_RFC1738): string
+  Generate URL-encoded query string
+parse_url(string $url, int $component = -1): int|string|array|null|false
+  Parse a URL and return its components
+rawurldecode(string $string): string
+  Decode URL-encoded strings
+rawurlencode(string $string): string
+  URL-encode according to RFC 3986
+urldecode(string $string): string
+  Decodes URL-encoded string
+urlencode(string $string): string
+  URL-encodes string
+addcslashes(string $string, string $characters): string
+  Quote string with slashes in a C style
+addslashes(string $string): string
+  Quote string with slashes
+bin2hex(string $string): string
+  Convert binary data into hexadecimal representation
+chop(string $string, string $characters = " \\n\\r\\t\\v\\x00"): string
+  Alias of rtrim
+chr(int $codepoint): string
+  Generate a single-byte string from a number
+chunk_split(string $string, int $length = 76, string $separator = "\\r\\n"): string
+  Split a string into smaller chunks
+convert_cyr_string(string $str, string $from, string $to): string @deprecated 7.4 @removed 8.0
+  Convert from one Cyrillic character set to another
+convert_uudecode(string $string): string|false
+  Decode a uuencoded string
+convert_uuencode(string $string): string
+  Uuencode a string
+count_chars(string $string, int $mode = 0): array|string
+  Return information about characters used in a string
+crc32(string $string): int
+  Calculates the crc32 polynomial of a string
+crypt(string $string, string $salt): string
+  One-way string hashing
+explode(string $separator, string $string, int $limit = PHP_INT_MAX): array
+  Split a string by a string
+fprintf(mixed $stream, string $format, mixed ...$values): int
+  Write a formatted string to a stream
+get_html_translation_table(int $table = HTML_SPECIALCHARS, int $flags = ENT_QUOTES | ENT_SUBSTITUTE | ENT_HTML401, string $encoding = "UTF-8"): array
+  Returns the translation table used by htmlspecialchars and htmlentities
+hebrev(string $string, int $max_chars_per_line = 0): string
+  Convert logical Hebrew text to visual text
+hebrevc(string $hebrew_text, int $max_chars_per_line = 0): string @deprecated 7.4 @removed 8.0
+  Convert logical Hebrew text to visual text with newline conversion
+hex2bin(string $string): string|false
+  Decodes a hexadecimally encoded binary string
+html_entity_decode(string $string, int $flags = ENT_QUOTES | ENT_SUBSTITUTE | ENT_HTML401, ?string $encoding = null): string
+  Convert HTML entities to their corresponding characters
+htmlentities(string $string, int $flags = ENT_QUOTES | ENT_SUBSTITUTE | ENT_HTML401, ?string $encoding = null, bool $double_encode = true): string
+  Convert all applicable characters to HTML entities
+htmlspecialchars_decode(string $string, int $flags = ENT_QUOTES | ENT_SUBSTITUTE | ENT_HTML401): string
+  Convert special HTML entities back to characters
+htmlspecialchars(string $string, int $flags = ENT_QUOTES | ENT_SUBSTITUTE | ENT_HTML401, ?string $encoding = null, bool $double_encode = true): string
+  Convert special characters to HTML entities
+implode(array|string $separator, ?array $array = null): string
+  Join array elements with a string
+join(array|string $separator, ?array $array = null): string
+  Alias of implode
+lcfirst(string $string): string
+  Make a string's first character lowercase
+levenshtein(string $string1, string $string2, int $insertion_cost = 1, int $replacement_cost = 1, int $deletion_cost = 1): int
+  Calculate Levenshtein distance between two strings
+localeconv(): array
+  Get numeric formatting information
+ltrim(string $string, string $characters = " \\n\\r\\t\\v\\x00"): string
+  Strip whitespace (or other characters) from the beginning of a string
+md5_file(string $filename, bool $binary = false): string|false
+  Calculates the md5 hash of a given file
+md5(string $string, bool $binary = false): string
+  Calculate the md5 hash of a string
+metaphone(string $string, int $max_phonemes = 0): string
+  Calculate the metaphone key of a string
+money_format(string $format, float $number): string @deprecated 7.4 @removed 8.0
+  Formats a number as a currency string
+nl_langinfo(int $item): string|false
+  Query language and locale information
+nl2br(string $string, bool $use_xhtml = true): string
+  Inserts HTML line breaks before all newlines in a string
+number_format(float $num, int $decimals = 0, ?string $decimal_separator = ".", ?string $thousands_separator = ","): string
+  Format a number with grouped thousands
+ord(string $character): int
+  Convert the first byte of a string to a value between 0 and 255
+parse_str(string $string, array &$result): void
+  Parses the string into variables
+printf(string $format, mixed ...$values): int
+  Output a formatted string
+quoted_printable_decode(string $string): string
+  Convert a quoted-printable string to an 8 bit string
+quoted_printable_encode(string $string): string
+  Convert a 8 bit string to a quoted-printable string
+quotemeta(string $string): string
+  Quote meta characters
+rtrim(string $string, string $characters = " \\n\\r\\t\\v\\x00"): string
+  Strip whitespace (or other characters) from the end of a string
+setlocale(int $category, string|array|null $locales, string|array|null ...$rest): string|false
+  Set locale information
+sha1_file(string $filename, bool $binary = false): string|false
+  Calculate the sha1 hash of a file
+sha1(string $string, bool $binary = false): string
+  Calculate the sha1 hash of a string
+similar_text(string $string1, string $string2, float &$percent = null): int
+  Calculate the similarity between two strings
+soundex(string $string): string
+  Calculate the soundex key of a string
+sprintf(string $format, mixed ...$values): string
+  Return a formatted string
+sscanf(string $string, string $format, mixed &...$vars): array|int|null
+  Parses input from a string according to a format
+str_contains(string $haystack, string $needle): bool @since 8.0
+  Determine if a string contains a given substring
+str_ends_with(string $haystack, string $needle): bool @since 8.0
+  Checks if a string ends with a given substring
+str_getcsv(string $string, string $separator = ",", string $enclosure = "\\"", string $escape = "\\\\"): array
+  Parse a CSV string into an array
+str_ireplace(array|string $search, array|string $replace, string|array $subject, int &$count = null): string|array
+  Case-insensitive version of str_replace
+str_pad(string $string, int $length, string $pad_string = " ", int $pad_type = STR_PAD_RIGHT): string
+  Pad a string to a certain length with another string
+str_repeat(string $string, int $times): string
+  Repeat a string
+str_replace(array|string $search, array|string $replace, string|array $subject, int &$count = null): string|array
+  Replace all occurrences of the search string with the replacement string
+str_rot13(string $string): string
+  Perform the rot13 transform on a string
+str_shuffle(string $string): string
+  Randomly shuffles a string
+str_split(string $string, int $length = 1): array
+  Convert a string to an array
+str_starts_with(string $haystack, string $needle): bool @since 8.0
+  Checks if a string starts with a given substring
+str_word_count(string $string, int $format = 0, ?string $characters = null): array|int
+  Return information about words used in a string
+strchr(string $haystack, string $needle, bool $before_needle = false): string|false
+  Alias of strstr
+strcoll(string $string1, string $string2): int
+  Locale based string comparison
+strcspn(string $string, string $characters, int $offset = 0, ?int $length = null): int
+  Find length of initial segment not matching mask
+strip_tags(string $string, array|string|null $allowed_tags = null): string
+  Strip HTML and PHP tags from a string
+stripcslashes(string $string): string
+  Un-quote string quoted with addcslashes
+stripos(string $haystack, string $needle, int $offset = 0): int|false
+  Find the position of the first occurrence of a case-insensitive substring in a string
+stripslashes(string $string): string
+  Un-quotes a quoted string
+stristr(string $haystack, string $needle, bool $before_needle = false): string|false
+  Case-insensitive strstr
+strnatcasecmp(string $string1, string $string2): int
+  Case insensitive string comparisons using a "natural order" algorithm
+strnatcmp(string $string1, string $string2): int
+  String comparisons using a "natural order" algorithm
+strpbrk(string $string, string $characters): string|false
+  Search a string for any of a set of characters
+strpos(string $haystack, string $needle, int $offset = 0): int|false
+  Find the position of the first occurrence of a substring in a string
+strrchr(string $haystack, string $needle): string|false
+  Find the last occurrence of a character in a string
+strrev(string $string): string
+  Reverse a string
+strripos(string $haystack, string $needle, int $offset = 0): int|false
+  Find the position of the last occurrence of a case-insensitive substring in a string
+strrpos(string $haystack, string $needle, int $offset = 0): int|false
+  Find the position of the last occurrence of a substring in a string
+strspn(string $string, string $characters, int $offset = 0, ?int $length = null): int
+  Finds the length of the initial segment of a string consisting entirely of characters contained within a given mask
+strstr(string $haystack, string $needle, bool $before_needle = false): string|false
+  Find the first occurrence of a string
+strtok(string $string, ?string $token = null): string|false
+  Tokenize string
+strtolower(string $string): string
+  Make a string lowercase
+strtoupper(string $string): string
+  Make a string uppercase
+strtr(string $string, string|array $from, ?string $to = null): string
+  Translate characters or replace substrings
+substr_compare(string $haystack, string $needle, int $offset, ?int $length = null, bool $case_insensitive = false): int
+  Binary safe comparison of two strings from an offset, up to length characters
+substr_count(string $haystack, string $needle, int $offset = 0, ?int $length = null): int
+  Count the number of substring occurrences
+substr_replace(array|string $string, array|string $replace, array|int $offset, array|int|null $length = null): string|array
+  Replace text within a portion of a string
+substr(string $string, int $offset, ?int $length = null): string
+  Return part of a string
+trim(string $string, string $characters = " \\n\\r\\t\\v\\x00"): string
+  Strip whitespace (or other characters) from the beginning and end of a string
+ucfirst(string $string): string
+  Make a string's first character uppercase
+ucwords(string $string, string $separators = " \\t\\r\\n\\f\\v"): string
+  Uppercase the first character of each word in a string
+utf8_decode(string $string): string @deprecated 8.2
+  Converts a string from UTF-8 to ISO-8859-1, replacing invalid or unrepresentable characters
+utf8_encode(string $string): string @deprecated 8.2
+  Converts a string from ISO-8859-1 to UTF-8
+vfprintf(mixed $stream, string $format, array $values): int
+  Write a formatted string to a stream
+vsprintf(string $format, array $values): string
+  Return a formatted string
+wordwrap(string $string, int $width = 75, string $break = "\\n", bool $cut_long_words = false): string
+  Wraps a string to a given number of characters
+array_change_key_case(array $array, int $case = CASE_LOWER): array
+  Changes the case of all keys in an array
+array_chunk(array $array, int $length, bool $preserve_keys = false): array
+  Split an array into chunks
+array_column(array $array, int|string|null $column_key, int|string|null $index_key = null): array
+  Return the values from a single column in the input array
+array_combine(array $keys, array $values): array
+  Creates an array by using one array for keys and another for its values
+array_count_values(array $array): array
+  Counts the occurrences of each distinct value in an array
+array_diff_assoc(array $array, array ...$arrays): array
+  Computes the difference of arrays with additional index check
+array_diff_key(array $array, array ...$arrays): array
+  Computes the difference of arrays using keys for comparison
+array_diff_uassoc(array $array, ...$rest): array
+  Computes the difference of arrays with additional index check which is performed by a user supplied callback function
+array_diff_ukey(array $array, ...$rest): array
+  Computes the difference of arrays using a callback function on the keys for comparison
+array_diff(array $array, array ...$arrays): array
+  Computes the difference of arrays
+array_fill_keys(array $keys, mixed $value): array
+  Fill an array with values, specifying keys
+array_fill(int $start_index, int $count, mixed $value): array
+  Fill an array with values
+array_filter(array $array, ?callable $callback = null, int $mode = 0): array
+  Filters elements of an array using a callback function
+array_flip(array $array): array
+  Exchanges all keys with their associated values in an array
+array_intersect_assoc(array $array, array ...$arrays): array
+  Computes the intersection of arrays with additional index check
+array_intersect_key(array $array, array ...$arrays): array
+  Computes the intersection of arrays using keys for comparison
+array_intersect_uassoc(array $array, ...$rest): array
+  Computes the intersection of arrays with additional index check, compares indexes by a callback function
+array_intersect_ukey(array $array, ...$rest): array
+  Computes the intersection of arrays using a callback function on the keys for comparison
+array_intersect(array $array, array ...$arrays): array
+  Computes the intersection of arrays
+array_is_list(array $array): bool @since 8.1
+  Checks whether a given array is a list
+array_key_exists(string|int $key, array $array): bool
+  Checks if the given key or index exists in the array
+array_key_first(array $array): int|string|null @since 7.3
+  Gets the first key of an array
+array_key_last(array $array): int|string|null @since 7.3
+  Gets the last key of an array
+array_keys(array $array, mixed $filter_value = UNKNOWN, bool $strict = false): array
+  Return all the keys or a subset of the keys of an array
+array_map(?callable $callback, array $array, array ...$arrays): array
+  Applies the callback to the elements of the given arrays
+array_merge_recursive(array ...$arrays): array
+  Merge one or more arrays recursively
+array_merge(array ...$arrays): array
+  Merge one or more arrays
+array_multisort(array &$array, mixed &...$rest): bool
+  Sort multiple or multi-dimensional arrays
+array_pad(array $array, int $length, mixed $value): array
+  Pad array to the specified length with a value
+array_pop(array &$array): mixed
+  Pop the element off the end of array
+array_product(array $array): int|float
+  Calculate the product of values in an array
+array_push(array &$array, mixed ...$values): int
+  Push one or more elements onto the end of array
+array_rand(array $array, int $num = 1): int|string|array
+  Pick one or more random keys out of an array
+array_reduce(array $array, callable $callback, mixed $initial = null): mixed
+  Iteratively reduce the array to a single value using a callback function
+array_replace_recursive(array $array, array ...$replacements): array
+  Replaces elements from passed arrays into the first array recursively
+array_replace(array $array, array ...$replacements): array
+  Replaces elements from passed arrays into the first array
+array_reverse(array $array, bool $preserve_keys = false): array
+  Return an array with elements in reverse order
+array_search(mixed $needle, array $haystack, bool $strict = false): int|string|false
+  Searches the array for a given value and returns the first corresponding key if successful
+array_shift(array &$array): mixed
+  Shift an element off the beginning of array
+array_slice(array $array, int $offset, ?int $length = null, bool $preserve_keys = false): array
+  Extract a slice of the array
+array_splice(array &$array, int $offset, ?int $length = null, mixed $replacement = []): array
+  Remove a portion of the array and replace it with something else
+array_sum(array $array): int|float
+  Calculate the sum of values in an array
+array_udiff_assoc(array $array, ...$rest): array
+  Computes the difference of arrays with additional index check, compares data by a callback function
+array_udiff_uassoc(array $array, ...$rest): array
+  Computes the difference of arrays with additional index check, compares data and indexes by a callback function
+array_udiff(array $array, ...$rest): array
+  Computes the difference of arrays by using a callback function for data comparison
+array_uintersect_assoc(array $array, ...$rest): array
+  Computes the intersection of arrays with additional index check, compares data by a callback function
+array_uintersect_uassoc(array $array, ...$rest): array
+  Computes the intersection of arrays with additional index check, compares data and indexes by separate callback functions
+array_uintersect(array $array, ...$rest): array
+  Computes the intersection of arrays, compares data by a callback function
+array_unique(array $array, int $flags = SORT_STRING): array
+  Removes duplicate values from an array
+array_unshift(array &$array, mixed ...$values): int
+  Prepend one or more elements to the beginning of an array
+array_values(array $array): array
+  Return all the values of an array
+array_walk_recursive(array|object &$array, callable $callback, mixed $arg = UNKNOWN): bool
+  Apply a user function recursively to every member of an array
+array_walk(array|object &$array, callable $callback, mixed $arg = UNKNOWN): bool
+  Apply a user supplied function to every member of an array
+arsort(array &$array, int $flags = SORT_REGULAR): bool
+  Sort an array in descending order and maintain index association
+asort(array &$array, int $flags = SORT_REGULAR): bool
+  Sort an array in ascending order and maintain index association
+compact(array|string $var_name, array|string ...$var_names): array
+  Create array containing variables and their values
+count(Countable|array $value, int $mode = COUNT_NORMAL): int
+  Counts all elements in an array or in a Countable object
+current(array|object $array): mixed
+  Return the current element in an array
+end(array|object &$array): mixed
+  Set the internal pointer of an array to its last element
+extract(array &$array, int $flags = EXTR_OVERWRITE, string $prefix = ""): int
+  Import variables into the current symbol table from an array
+in_array(mixed $needle, array $haystack, bool $strict = false): bool
+  Checks if a value exists in an array
+key_exists(string|int $key, array $array): bool
+  Alias of array_key_exists
+key(array|object $array): int|string|null
+  Fetch a key from an array
+krsort(array &$array, int $flags = SORT_REGULAR): bool
+  Sort an array by key in descending order
+ksort(array &$array, int $flags = SORT_REGULAR): bool
+  Sort an array by key in ascending order
+natcasesort(array &$array): bool
+  Sort an array using a case insensitive "natural order" algorithm
+natsort(array &$array): bool
+  Sort an array using a "natural order" algorithm
+next(array|object &$array): mixed
+  Advance the internal pointer of an array
+pos(array|object $array): mixed
+  Alias of current
+prev(array|object &$array): mixed
+  Rewind the internal array pointer
+range(string|int|float $start, string|int|float $end, int|float $step = 1): array
+  Create an array containing a range of elements
+reset(array|object &$array): mixed
+  Set the internal pointer of an array to its first element
+rsort(array &$array, int $flags = SORT_REGULAR): bool
+  Sort an array in descending order
+shuffle(array &$array): bool
+  Shuffle an array
+sizeof(Countable|array $value, int $mode = COUNT_NORMAL): int
+  Alias of count
+sort(array &$array, int $flags = SORT_REGULAR): bool
+  Sort an array in ascending order
+uasort(array &$array, callable $callback): bool
+  Sort an array with a user-defined comparison function and maintain index association
+uksort(array &$array, callable $callback): bool
+  Sort an array by keys using a user-defined comparison function
+usort(array &$array, callable $callback): bool
+  Sort an array by values using a user-defined comparison function
+call_user_func_array(callable $callback, array $args): mixed
+  Call a callback with an array of parameters
+call_user_func(callable $callback, mixed ...$args): mixed
+  Call the callback given by the first parameter
+forward_static_call_array(callable $callback, array $args): mixed
+  Call a static method and pass the arguments as array
+forward_static_call(callable $callback, mixed ...$args): mixed
+  Call a static method
+register_shutdown_function(callable $callback, mixed ...$args): void
+  Register a function for execution on shutdown
+register_tick_function(callable $callback, mixed ...$args): bool
+  Register a function for execution on each tick
+unregister_tick_function(callable $callback): void
+  De-register a function for execution on each tick
+boolval(mixed $value): bool
+  Get the boolean value of a variable
+debug_zval_dump(mixed $value, mixed ...$values): void
+  Dumps a string representation of an internal zval structure to output
+doubleval(mixed $value): float
+  Alias of floatval
+floatval(mixed $value): float
+  Get float value of a variable
+get_debug_type(mixed $value): string @since 8.0
+  Gets the type name of a variable in a way that is suitable for debugging
+gettype(mixed $value): string
+  Get the type of a variable
+intval(mixed $value, int $base = 10): int
+  Get the integer value of a variable
+is_array(mixed $value): bool
+  Finds whether a variable is an array
+is_bool(mixed $value): bool
+  Finds out whether a variable is a boolean
+is_callable(mixed $value, bool $syntax_only = false, string &$callable_name = null): bool
+  Verify that a value can be called as a function from the current scope
+is_countable(mixed $value): bool @since 7.3
+  Verify that the contents of a variable is a countable value
+is_double(mixed $value): bool
+  Alias of is_float
+is_float(mixed $value): bool
+  Finds whether the type of a variable is float
+is_int(mixed $value): bool
+  Find whether the type of a variable is integer
+is_integer(mixed $value): bool
+  Alias of is_int
+is_iterable(mixed $value): bool
+  Verify that the contents of a variable is an iterable value
+is_long(mixed $value): bool
+  Alias of is_int
+is_null(mixed $value): bool
+  Finds whether a variable is null
+is_numeric(mixed $value): bool
+  Finds whether a variable is a number or a numeric string
+is_object(mixed $value): bool
+  Finds whether a variable is an object
+is_real(mixed $value): bool @deprecated 7.4 @removed 8.0
+  Alias of is_float
+is_resource(mixed $value): bool
+  Finds whether a variable is a resource
+is_scalar(mixed $value): bool
+  Finds whether a variable is a scalar
+is_string(mixed $value): bool
+  Find whether the type of a variable is string
+print_r(mixed $value, bool $return = false): string|bool
+  Prints human-readable information about a variable
+serialize(mixed $value): string
+  Generates a storable representation of a value
+settype(mixed &$var, string $type): bool
+  Set the type of a variable
+strval(mixed $value): string
+  Get string value of a variable
+unserialize(string $data, array $options = []): mixed
+  Creates a PHP value from a stored representation
+var_dump(mixed $value, mixed ...$values): void
+  Dumps information about a variable
+var_export(mixed $value, bool $return = false): ?string
+  Outputs or returns a parsable string representation of a variable`,
+
+  pcre: `
+preg_match(string $pattern, string $subject, array &$matches = null, int $flags = 0, int $offset = 0): int|false
+  Perform a regular expression match
+preg_match_all(string $pattern, string $subject, array &$matches = null, int $flags = 0, int $offset = 0): int|false
+  Perform a global regular expression match
+preg_replace(string|array $pattern, string|array $replacement, string|array $subject, int $limit = -1, int &$count = null): string|array|null
+  Perform a regular expression search and replace
+preg_replace_callback(string|array $pattern, callable $callback, string|array $subject, int $limit = -1, int &$count = null, int $flags = 0): string|array|null
+  Perform a regular expression search and replace using a callback
+preg_replace_callback_array(array $pattern, string|array $subject, int $limit = -1, int &$count = null, int $flags = 0): string|array|null
+  Perform a regular expression search and replace using callbacks
+preg_split(string $pattern, string $subject, int $limit = -1, int $flags = 0): array|false
+  Split string by a regular expression
+preg_quote(string $str, ?string $delimiter = null): string
+  Quote regular expression characters
+preg_grep(string $pattern, array $array, int $flags = 0): array|false
+  Return array entries that match the pattern
+preg_last_error(): int
+  Returns the error code of the last PCRE regex execution
+preg_last_error_msg(): string @since 8.0
+  Returns the error message of the last PCRE regex execution`,
+
+  mbstring: `
+mb_strlen(string $string, ?string $encoding = null): int
+  Get string length
+mb_substr(string $string, int $start, ?int $length = null, ?string $encoding = null): string
+  Get part of string
+mb_strpos(string $haystack, string $needle, int $offset = 0, ?string $encoding = null): int|false
+  Find position of first occurrence of string in a string
+mb_strrpos(string $haystack, string $needle, int $offset = 0, ?string $encoding = null): int|false
+  Find position of last occurrence of a string in a string
+mb_substr_count(string $haystack, string $needle, ?string $encoding = null): int
+  Count the number of substring occurrences
+mb_strtolower(string $string, ?string $encoding = null): string
+  Make a string lowercase
+mb_strtoupper(string $string, ?string $encoding = null): string
+  Make a string uppercase
+mb_convert_case(string $string, int $mode, ?string $encoding = null): string
+  Perform case folding on a string
+mb_str_split(string $string, int $length = 1, ?string $encoding = null): array @since 7.4
+  Given a multibyte string, return an array of its characters
+mb_str_pad(string $string, int $length, string $pad_string = " ", int $pad_type = STR_PAD_RIGHT, ?string $encoding = null): string @since 8.3
+  Pad a multibyte string to a certain length with another multibyte string
+mb_strwidth(string $string, ?string $encoding = null): int
+  Return width of string
+mb_internal_encoding(?string $encoding = null): string|bool
+  Set/Get internal character encoding
+mb_convert_encoding(array|string $string, string $to_encoding, array|string|null $from_encoding = null): array|string|false
+  Convert a string from one character encoding to another
+mb_check_encoding(array|string|null $value = null, ?string $encoding = null): bool
+  Check if strings are valid for the specified encoding
+mb_detect_encoding(string $string, array|string|null $encodings = null, bool $strict = false): string|false
+  Detect character encoding`,
+
+  ctype: `
+ctype_alnum(mixed $text): bool
+  Check for alphanumeric character(s)
+ctype_alpha(mixed $text): bool
+  Check for alphabetic character(s)
+ctype_digit(mixed $text): bool
+  Check for numeric character(s)
+ctype_lower(mixed $text): bool
+  Check for lowercase character(s)
+ctype_upper(mixed $text): bool
+  Check for uppercase character(s)
+ctype_space(mixed $text): bool
+  Check for whitespace character(s)
+ctype_punct(mixed $text): bool
+  Check for any printable character which is not whitespace or an alphanumeric character
+ctype_xdigit(mixed $text): bool
+  Check for character(s) representing a hexadecimal digit`,
+
+  iconv: `
+iconv(string $from_encoding, string $to_encoding, string $string): string|false
+  Convert a string from one character encoding to another
+iconv_strlen(string $string, ?string $encoding = null): int|false
+  Returns the character count of string
+iconv_substr(string $string, int $offset, ?int $length = null, ?string $encoding = null): string|false
+  Cut out part of a string`,
+
+  spl: `
+spl_autoload_register(?callable $callback = null, bool $throw = true, bool $prepend = false): bool
+  Register given function as __autoload() implementation
+spl_autoload_unregister(callable $callback): bool
+  Unregister given function as __autoload() implementation
+spl_classes(): array
+  Return available SPL classes
+spl_object_hash(object $object): string
+  Return hash id for given object
+spl_object_id(object $object): int @since 7.2
+  Return the integer object handle for given object
+class_implements(object|string $object_or_class, bool $autoload = true): array|false
+  Return the interfaces which are implemented by the given class or interface
+class_parents(object|string $object_or_class, bool $autoload = true): array|false
+  Return the parent classes of the given class
+class_uses(object|string $object_or_class, bool $autoload = true): array|false
+  Return the traits used by the given class
+iterator_to_array(Traversable|array $iterator, bool $preserve_keys = true): array
+  Copy the iterator into an array
+iterator_count(Traversable|array $iterator): int
+  Count the elements in an iterator
+iterator_apply(Traversable $iterator, callable $callback, ?array $args = null): int
+  Call a function for every element in an iterator`,
+
+  readline: `
+readline_add_history(string $prompt): bool
+  Adds a line to the history
+readline_callback_handler_install(string $prompt, callable $callback): bool
+  Initializes the readline callback interface and terminal, prints the prompt and returns immediately
+readline_callback_handler_remove(): bool
+  Removes a previously installed callback handler and restores terminal settings
+readline_callback_read_char(): void
+  Reads a character and informs the readline callback interface when a line is received
+readline_clear_history(): bool
+  Clears the history
+readline_completion_function(callable $callback): bool
+  Registers a completion function
+readline_info(?string $var_name = null, int|string|bool|null $value = null): mixed
+  Gets/sets various internal readline variables
+readline_list_history(): array
+  Lists the history
+readline_on_new_line(): void
+  Inform readline that the cursor has moved to a new line
+readline_read_history(?string $filename = null): bool
+  Reads the history
+readline_redisplay(): void
+  Redraws the display
+readline_write_history(?string $filename = null): bool
+  Writes the history
+readline(?string $prompt = null): string|false
+  Reads a line`,
+
+  bz2: `
+bzclose(mixed $bz): bool
+  Close a bzip2 file
+bzcompress(string $data, int $block_size = 4, int $work_factor = 0): string|int
+  Compress a string into bzip2 encoded data
+bzdecompress(string $data, bool $use_less_memory = false): string|int|false
+  Decompresses bzip2 encoded data
+bzerrno(mixed $bz): int
+  Returns a bzip2 error number
+bzerror(mixed $bz): array
+  Returns the bzip2 error number and error string in an array
+bzerrstr(mixed $bz): string
+  Returns a bzip2 error string
+bzflush(mixed $bz): bool
+  Do nothing
+bzopen(mixed $file, string $mode): mixed
+  Opens a bzip2 compressed file
+bzread(mixed $bz, int $length = 1024): string|false
+  Binary safe bzip2 file read
+bzwrite(mixed $bz, string $data, ?int $length = null): int|false
+  Binary safe bzip2 file write`,
+
+  zip: `
+zip_close(mixed $zip): void @deprecated 8.0
+  Close a ZIP file archive
+zip_entry_close(mixed $zip_entry): bool @deprecated 8.0
+  Close a directory entry
+zip_entry_compressedsize(mixed $zip_entry): int|false @deprecated 8.0
+  Retrieve the compressed size of a directory entry
+zip_entry_compressionmethod(mixed $zip_entry): string|false @deprecated 8.0
+  Retrieve the compression method of a directory entry
+zip_entry_filesize(mixed $zip_entry): int|false @deprecated 8.0
+  Retrieve the actual file size of a directory entry
+zip_entry_name(mixed $zip_entry): string|false @deprecated 8.0
+  Retrieve the name of a directory entry
+zip_entry_open(mixed $zip_dp, mixed $zip_entry, string $mode = "rb"): bool @deprecated 8.0
+  Open a directory entry for reading
+zip_entry_read(mixed $zip_entry, int $len = 1024): string|false @deprecated 8.0
+  Read from an open directory entry
+zip_open(string $filename): mixed @deprecated 8.0
+  Open a ZIP file archive
+zip_read(mixed $zip): mixed @deprecated 8.0
+  Read next entry in a ZIP file archive`,
+
+  zlib: `
+deflate_add(mixed $context, string $data, int $flush_mode = ZLIB_SYNC_FLUSH): string|false @since 7.0
+  Incrementally deflate data
+deflate_init(int $encoding, array $options = []): mixed @since 7.0
+  Initialize an incremental deflate context
+gzclose(mixed $stream): bool
+  Close an open gz-file pointer
+gzcompress(string $data, int $level = -1, int $encoding = ZLIB_ENCODING_DEFLATE): string|false
+  Compress a string
+gzdecode(string $data, int $max_length = 0): string|false
+  Decodes a gzip compressed string
+gzdeflate(string $data, int $level = -1, int $encoding = ZLIB_ENCODING_RAW): string|false
+  Deflate a string
+gzencode(string $data, int $level = -1, int $encoding = ZLIB_ENCODING_GZIP): string|false
+  Create a gzip compressed string
+gzeof(mixed $stream): bool
+  Test for EOF on a gz-file pointer
+gzfile(string $filename, int $use_include_path = 0): array|false
+  Read entire gz-file into an array
+gzgetc(mixed $stream): string|false
+  Get character from gz-file pointer
+gzgets(mixed $stream, ?int $length = null): string|false
+  Get line from file pointer
+gzgetss(mixed $zp, int $length, string $allowable_tags = ""): string|false @deprecated 7.3 @removed 8.0
+  Get line from gz-file pointer and strip HTML tags
+gzinflate(string $data, int $max_length = 0): string|false
+  Inflate a deflated string
+gzopen(string $filename, string $mode, int $use_include_path = 0): mixed
+  Open gz-file
+gzpassthru(mixed $stream): int
+  Output all remaining data on a gz-file pointer
+gzputs(mixed $stream, string $data, ?int $length = null): int|false
+  Alias of gzwrite
+gzread(mixed $stream, int $length): string|false
+  Binary-safe gz-file read
+gzrewind(mixed $stream): bool
+  Rewind the position of a gz-file pointer
+gzseek(mixed $stream, int $offset, int $whence = SEEK_SET): int
+  Seek on a gz-file pointer
+gztell(mixed $stream): int|false
+  Tell gz-file pointer read/write position
+gzuncompress(string $data, int $max_length = 0): string|false
+  Uncompress a compressed string
+gzwrite(mixed $stream, string $data, ?int $length = null): int|false
+  Binary-safe gz-file write
+inflate_add(mixed $context, string $data, int $flush_mode = ZLIB_SYNC_FLUSH): string|false @since 7.0
+  Incrementally inflate encoded data
+inflate_get_read_len(mixed $context): int @since 7.2
+  Get number of bytes read so far
+inflate_get_status(mixed $context): int @since 7.2
+  Get decompression status
+inflate_init(int $encoding, array $options = []): mixed @since 7.0
+  Initialize an incremental inflate context
+readgzfile(string $filename, int $use_include_path = 0): int|false
+  Output a gz-file
+zlib_decode(string $data, int $max_length = 0): string|false
+  Uncompress any raw/gzip/zlib encoded data
+zlib_encode(string $data, int $encoding, int $level = -1): string|false
+  Compress data with the specified encoding
+zlib_get_coding_type(): string|false
+  Returns the coding type used for output compression`,
+
+  calendar: `
+cal_days_in_month(int $calendar, int $month, int $year): int
+  Return the number of days in a month for a given year and calendar
+cal_from_jd(int $julian_day, int $calendar): array
+  Converts from Julian Day Count to a supported calendar
+cal_info(int $calendar = -1): array
+  Returns information about a particular calendar
+cal_to_jd(int $calendar, int $month, int $day, int $year): int
+  Converts from a supported calendar to Julian Day Count
+easter_date(?int $year = null, int $mode = CAL_EASTER_DEFAULT): int
+  Get Unix timestamp for midnight on Easter of a given year
+easter_days(?int $year = null, int $mode = CAL_EASTER_DEFAULT): int
+  Get number of days after March 21 on which Easter falls for a given year
+frenchtojd(int $month, int $day, int $year): int
+  Converts a date from the French Republican Calendar to a Julian Day Count
+gregoriantojd(int $month, int $day, int $year): int
+  Converts a Gregorian date to Julian Day Count
+jddayofweek(int $julian_day, int $mode = CAL_DOW_DAYNO): int|string
+  Returns the day of the week
+jdmonthname(int $julian_day, int $mode): string
+  Returns a month name
+jdtofrench(int $julian_day): string
+  Converts a Julian Day Count to the French Republican Calendar
+jdtogregorian(int $julian_day): string
+  Converts Julian Day Count to Gregorian date
+jdtojewish(int $julian_day, bool $hebrew = false, int $flags = 0): string
+  Converts a Julian day count to a Jewish calendar date
+jdtojulian(int $julian_day): string
+  Converts a Julian Day Count to a Julian Calendar Date
+jdtounix(int $julian_day): int
+  Convert Julian Day to Unix timestamp
+jewishtojd(int $month, int $day, int $year): int
+  Converts a date in the Jewish Calendar to Julian Day Count
+juliantojd(int $month, int $day, int $year): int
+  Converts a Julian Calendar date to Julian Day Count
+unixtojd(?int $timestamp = null): int|false
+  Convert Unix timestamp to Julian Day`,
+
+  date: `
+checkdate(int $month, int $day, int $year): bool
+  Validate a Gregorian date
+date_add(DateTime $object, DateInterval $interval): DateTime
+  Alias of DateTime::add
+date_create_from_format(string $format, string $datetime, ?DateTimeZone $timezone = null): DateTime|false
+  Alias of DateTime::createFromFormat
+date_create_immutable_from_format(string $format, string $datetime, ?DateTimeZone $timezone = null): DateTimeImmutable|false
+  Alias of DateTimeImmutable::createFromFormat
+date_create_immutable(string $datetime = "now", ?DateTimeZone $timezone = null): DateTimeImmutable|false
+  Create new DateTimeImmutable object
+date_create(string $datetime = "now", ?DateTimeZone $timezone = null): DateTime|false
+  Create new DateTime object
+date_date_set(DateTime $object, int $year, int $month, int $day): DateTime
+  Alias of DateTime::setDate
+date_default_timezone_get(): string
+  Gets the default timezone used by all date/time functions in a script
+date_default_timezone_set(string $timezoneId): bool
+  Sets the default timezone used by all date/time functions in a script
+date_diff(DateTimeInterface $baseObject, DateTimeInterface $targetObject, bool $absolute = false): DateInterval
+  Alias of DateTime::diff
+date_format(DateTimeInterface $object, string $format): string
+  Alias of DateTime::format
+date_get_last_errors(): array|false
+  Alias of DateTime::getLastErrors
+date_interval_create_from_date_string(string $datetime): DateInterval|false
+  Alias of DateInterval::createFromDateString
+date_interval_format(DateInterval $object, string $format): string
+  Alias of DateInterval::format
+date_isodate_set(DateTime $object, int $year, int $week, int $dayOfWeek = 1): DateTime
+  Alias of DateTime::setISODate
+date_modify(DateTime $object, string $modifier): DateTime|false
+  Alias of DateTime::modify
+date_offset_get(DateTimeInterface $object): int
+  Alias of DateTime::getOffset
+date_parse_from_format(string $format, string $datetime): array
+  Get info about given date formatted according to the specified format
+date_parse(string $datetime): array
+  Returns associative array with detailed info about given date/time
+date_sub(DateTime $object, DateInterval $interval): DateTime
+  Alias of DateTime::sub
+date_sun_info(int $timestamp, float $latitude, float $longitude): array
+  Returns an array with information about sunset/sunrise and twilight begin/end
+date_sunrise(int $timestamp, int $returnFormat = SUNFUNCS_RET_STRING, ?float $latitude = null, ?float $longitude = null, ?float $zenith = null, ?float $utcOffset = null): string|int|float|false @deprecated 8.1
+  Returns time of sunrise for a given day and location
+date_sunset(int $timestamp, int $returnFormat = SUNFUNCS_RET_STRING, ?float $latitude = null, ?float $longitude = null, ?float $zenith = null, ?float $utcOffset = null): string|int|float|false @deprecated 8.1
+  Returns time of sunset for a given day and location
+date_time_set(DateTime $object, int $hour, int $minute, int $second = 0, int $microsecond = 0): DateTime
+  Alias of DateTime::setTime
+date_timestamp_get(DateTimeInterface $object): int
+  Alias of DateTime::getTimestamp
+date_timestamp_set(DateTime $object, int $timestamp): DateTime
+  Alias of DateTime::setTimestamp
+date_timezone_get(DateTimeInterface $object): DateTimeZone|false
+  Alias of DateTime::getTimezone
+date_timezone_set(DateTime $object, DateTimeZone $timezone): DateTime
+  Alias of DateTime::setTimezone
+date(string $format, ?int $timestamp = null): string
+  Format a Unix timestamp
+getdate(?int $timestamp = null): array
+  Get date/time information
+gettimeofday(bool $as_float = false): array|float
+  Get current time
+gmdate(string $format, ?int $timestamp = null): string
+  Format a GMT/UTC date/time
+gmmktime(int $hour, ?int $minute = null, ?int $second = null, ?int $month = null, ?int $day = null, ?int $year = null): int|false
+  Get Unix timestamp for a GMT date
+gmstrftime(string $format, ?int $timestamp = null): string|false @deprecated 8.1
+  Format a GMT/UTC time/date according to locale settings
+idate(string $format, ?int $timestamp = null): int|false
+  Format a local time/date part as integer
+localtime(?int $timestamp = null, bool $associative = false): array
+  Get the local time
+microtime(bool $as_float = false): string|float
+  Return current Unix timestamp with microseconds
+mktime(int $hour, ?int $minute = null, ?int $second = null, ?int $month = null, ?int $day = null, ?int $year = null): int|false
+  Get Unix timestamp for a date
+strftime(string $format, ?int $timestamp = null): string|false @deprecated 8.1
+  Format a local time/date according to locale settings
+strptime(string $timestamp, string $format): array|false @deprecated 8.1
+  Parse a time/date generated with strftime
+strtotime(string $datetime, ?int $baseTimestamp = null): int|false
+  Parse about any English textual datetime description into a Unix timestamp
+time(): int
+  Return current Unix timestamp
+timezone_abbreviations_list(): array
+  Alias of DateTimeZone::listAbbreviations
+timezone_identifiers_list(int $timezoneGroup = DateTimeZone::ALL, ?string $countryCode = null): array
+  Alias of DateTimeZone::listIdentifiers
+timezone_location_get(DateTimeZone $object): array|false
+  Alias of DateTimeZone::getLocation
+timezone_name_from_abbr(string $abbr, int $utcOffset = -1, int $isDST = -1): string|false
+  Returns a timezone name by guessing from abbreviation and UTC offset
+timezone_name_get(DateTimeZone $object): string
+  Alias of DateTimeZone::getName
+timezone_offset_get(DateTimeZone $object, DateTimeInterface $datetime): int
+  Alias of DateTimeZone::getOffset
+timezone_open(string $timezone): DateTimeZone|false
+  Create new DateTimeZone object
+timezone_transitions_get(DateTimeZone $object, int $timestampBegin = PHP_INT_MIN, int $timestampEnd = PHP_INT_MAX): array|false
+  Alias of DateTimeZone::getTransitions
+timezone_version_get(): string
+  Gets the version of the timezonedb`,
+
+  fileinfo: `
+finfo_buffer(finfo $finfo, string $string, int $flags = FILEINFO_NONE, mixed $context = null): string|false
+  Return information about a string buffer
+finfo_close(finfo $finfo): bool
+  Close finfo instance
+finfo_file(finfo $finfo, string $filename, int $flags = FILEINFO_NONE, mixed $context = null): string|false
+  Return information about a file
+finfo_open(int $flags = FILEINFO_NONE, ?string $magic_database = null): finfo|false
+  Create a new finfo instance
+finfo_set_flags(finfo $finfo, int $flags): bool
+  Set libmagic configuration options
+mime_content_type(mixed $filename): string|false
+  Detect MIME Content-type for a file`,
+
+  gd: `
+gd_info(): array
+  Retrieve information about the currently installed GD library
+image2wbmp(mixed $image, ?string $filename = null, int $foreground = UNKNOWN): bool @deprecated 7.3 @removed 8.0
+  Output image to browser or file
+imageaffine(GdImage $image, array $affine, ?array $clip = null): GdImage|false
+  Return an image containing the affine transformed src image, using an optional clipping area
+imageaffinematrixconcat(array $matrix1, array $matrix2): array|false
+  Concatenate two affine transformation matrices
+imageaffinematrixget(int $type, array|float $options): array|false
+  Get an affine transformation matrix
+imagealphablending(GdImage $image, bool $enable): bool
+  Set the blending mode for an image
+imageantialias(GdImage $image, bool $enable): bool
+  Should antialias functions be used or not
+imagearc(GdImage $image, int $center_x, int $center_y, int $width, int $height, int $start_angle, int $end_angle, int $color): bool
+  Draws an arc
+imageavif(GdImage $image, mixed $file = null, int $quality = -1, int $speed = -1): bool @since 8.1
+  Output image to browser or file
+imagebmp(GdImage $image, mixed $file = null, bool $compressed = true): bool @since 7.2
+  Output a BMP image to browser or file
+imagechar(GdImage $image, GdFont|int $font, int $x, int $y, string $char, int $color): bool
+  Draw a character horizontally
+imagecharup(GdImage $image, GdFont|int $font, int $x, int $y, string $char, int $color): bool
+  Draw a character vertically
+imagecolorallocate(GdImage $image, int $red, int $green, int $blue): int|false
+  Allocate a color for an image
+imagecolorallocatealpha(GdImage $image, int $red, int $green, int $blue, int $alpha): int|false
+  Allocate a color for an image
+imagecolorat(GdImage $image, int $x, int $y): int|false
+  Get the index of the color of a pixel
+imagecolorclosest(GdImage $image, int $red, int $green, int $blue): int
+  Get the index of the closest color to the specified color
+imagecolorclosestalpha(GdImage $image, int $red, int $green, int $blue, int $alpha): int
+  Get the index of the closest color to the specified color + alpha
+imagecolorclosesthwb(GdImage $image, int $red, int $green, int $blue): int
+  Get the index of the color which has the hue, white and blackness
+imagecolordeallocate(GdImage $image, int $color): bool
+  De-allocate a color for an image
+imagecolorexact(GdImage $image, int $red, int $green, int $blue): int
+  Get the index of the specified color
+imagecolorexactalpha(GdImage $image, int $red, int $green, int $blue, int $alpha): int
+  Get the index of the specified color + alpha
+imagecolormatch(GdImage $image1, GdImage $image2): bool
+  Makes the colors of the palette version of an image more closely match the true color version
+imagecolorresolve(GdImage $image, int $red, int $green, int $blue): int
+  Get the index of the specified color or its closest possible alternative
+imagecolorresolvealpha(GdImage $image, int $red, int $green, int $blue, int $alpha): int
+  Get the index of the specified color + alpha or its closest possible alternative
+imagecolorset(GdImage $image, int $color, int $red, int $green, int $blue, int $alpha = 0): ?false
+  Set the color for the specified palette index
+imagecolorsforindex(GdImage $image, int $color): array
+  Get the colors for an index
+imagecolorstotal(GdImage $image): int
+  Find out the number of colors in an image's palette
+imagecolortransparent(GdImage $image, ?int $color = null): int
+  Define a color as transparent
+imageconvolution(GdImage $image, array $matrix, float $divisor, float $offset): bool
+  Apply a 3x3 convolution matrix, using coefficient and offset
+imagecopy(GdImage $dst_image, GdImage $src_image, int $dst_x, int $dst_y, int $src_x, int $src_y, int $src_width, int $src_height): bool
+  Copy part of an image
+imagecopymerge(GdImage $dst_image, GdImage $src_image, int $dst_x, int $dst_y, int $src_x, int $src_y, int $src_width, int $src_height, int $pct): bool
+  Copy and merge part of an image
+imagecopymergegray(GdImage $dst_image, GdImage $src_image, int $dst_x, int $dst_y, int $src_x, int $src_y, int $src_width, int $src_height, int $pct): bool
+  Copy and merge part of an image with gray scale
+imagecopyresampled(GdImage $dst_image, GdImage $src_image, int $dst_x, int $dst_y, int $src_x, int $src_y, int $dst_width, int $dst_height, int $src_width, int $src_height): bool
+  Copy and resize part of an image with resampling
+imagecopyresized(GdImage $dst_image, GdImage $src_image, int $dst_x, int $dst_y, int $src_x, int $src_y, int $dst_width, int $dst_height, int $src_width, int $src_height): bool
+  Copy and resize part of an image
+imagecreate(int $width, int $height): GdImage|false
+  Create a new palette based image
+imagecreatefromavif(string $filename): GdImage|false @since 8.1
+  Create a new image from file or URL
+imagecreatefrombmp(string $filename): GdImage|false @since 7.2
+  Create a new image from file or URL
+imagecreatefromgd2(string $filename): GdImage|false
+  Create a new image from GD2 file or URL
+imagecreatefromgd2part(string $filename, int $x, int $y, int $width, int $height): GdImage|false
+  Create a new image from a given part of GD2 file or URL
+imagecreatefromgd(string $filename): GdImage|false
+  Create a new image from GD file or URL
+imagecreatefromgif(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatefromjpeg(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatefrompng(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatefromstring(string $data): GdImage|false
+  Create a new image from the image stream in the string
+imagecreatefromtga(string $filename): GdImage|false @since 7.4
+  Create a new image from file or URL
+imagecreatefromwbmp(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatefromwebp(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatefromxbm(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatefromxpm(string $filename): GdImage|false
+  Create a new image from file or URL
+imagecreatetruecolor(int $width, int $height): GdImage|false
+  Create a new true color image
+imagecrop(GdImage $image, array $rectangle): GdImage|false
+  Crop an image to the given rectangle
+imagecropauto(GdImage $image, int $mode = IMG_CROP_DEFAULT, float $threshold = 0.5, int $color = -1): GdImage|false
+  Crop an image automatically using one of the available modes
+imagedashedline(GdImage $image, int $x1, int $y1, int $x2, int $y2, int $color): bool
+  Draw a dashed line
+imagedestroy(GdImage $image): bool
+  Destroy an image
+imageellipse(GdImage $image, int $center_x, int $center_y, int $width, int $height, int $color): bool
+  Draw an ellipse
+imagefill(GdImage $image, int $x, int $y, int $color): bool
+  Flood fill
+imagefilledarc(GdImage $image, int $center_x, int $center_y, int $width, int $height, int $start_angle, int $end_angle, int $color, int $style): bool
+  Draw a partial arc and fill it
+imagefilledellipse(GdImage $image, int $center_x, int $center_y, int $width, int $height, int $color): bool
+  Draw a filled ellipse
+imagefilledpolygon(GdImage $image, array $points, int $color): bool
+  Draw a filled polygon
+imagefilledrectangle(GdImage $image, int $x1, int $y1, int $x2, int $y2, int $color): bool
+  Draw a filled rectangle
+imagefilltoborder(GdImage $image, int $x, int $y, int $border_color, int $color): bool
+  Flood fill to specific color
+imagefilter(GdImage $image, int $filter, array|int|float|bool ...$args): bool
+  Applies a filter to an image
+imageflip(GdImage $image, int $mode): bool
+  Flips an image using a given mode
+imagefontheight(GdFont|int $font): int
+  Get font height
+imagefontwidth(GdFont|int $font): int
+  Get font width
+imageftbbox(float $size, float $angle, string $font_filename, string $string, array $options = []): array|false
+  Give the bounding box of a text using fonts via freetype2
+imagefttext(GdImage $image, float $size, float $angle, int $x, int $y, int $color, string $font_filename, string $text, array $options = []): array|false
+  Write text to the image using fonts using FreeType 2
+imagegammacorrect(GdImage $image, float $input_gamma, float $output_gamma): bool
+  Apply a gamma correction to a GD image
+imagegd2(GdImage $image, ?string $file = null, int $chunk_size = UNKNOWN, int $mode = UNKNOWN): bool
+  Output GD2 image to browser or file
+imagegd(GdImage $image, ?string $file = null): bool
+  Output GD image to browser or file
+imagegetclip(GdImage $image): array @since 7.2
+  Get the clipping rectangle
+imagegetinterpolation(GdImage $image): int @since 8.0
+  Get the interpolation method
+imagegif(GdImage $image, mixed $file = null): bool
+  Output image to browser or file
+imagegrabscreen(): GdImage|false
+  Captures the whole screen
+imagegrabwindow(int $handle, bool $client_area = false): GdImage|false
+  Captures a window
+imageinterlace(GdImage $image, ?bool $enable = null): bool
+  Enable or disable interlace
+imageistruecolor(GdImage $image): bool
+  Finds whether an image is a truecolor image
+imagejpeg(GdImage $image, mixed $file = null, int $quality = -1): bool
+  Output image to browser or file
+imagelayereffect(GdImage $image, int $effect): bool
+  Set the alpha blending flag to use layering effects
+imageline(GdImage $image, int $x1, int $y1, int $x2, int $y2, int $color): bool
+  Draw a line
+imageloadfont(string $filename): GdFont|false
+  Load a new font
+imageopenpolygon(GdImage $image, array $points, int $color): bool @since 7.2
+  Draws an open polygon
+imagepalettecopy(GdImage $dst, GdImage $src): void
+  Copy the palette from one image to another
+imagepalettetotruecolor(GdImage $image): bool
+  Converts a palette based image to true color
+imagepng(GdImage $image, mixed $file = null, int $quality = -1, int $filters = -1): bool
+  Output a PNG image to either the browser or a file
+imagepolygon(GdImage $image, array $points, int $color): bool
+  Draws a polygon
+imagerectangle(GdImage $image, int $x1, int $y1, int $x2, int $y2, int $color): bool
+  Draw a rectangle
+imageresolution(GdImage $image, ?int $resolution_x = null, ?int $resolution_y = null): array|bool @since 7.2
+  Get or set the resolution of the image
+imagerotate(GdImage $image, float $angle, int $background_color): GdImage|false
+  Rotate an image with a given angle
+imagesavealpha(GdImage $image, bool $enable): bool
+  Whether to retain full alpha channel information when saving images
+imagescale(GdImage $image, int $width, int $height = -1, int $mode = IMG_BILINEAR_FIXED): GdImage|false
+  Scale an image using the given new width and height
+imagesetbrush(GdImage $image, GdImage $brush): bool
+  Set the brush image for line drawing
+imagesetclip(GdImage $image, int $x1, int $y1, int $x2, int $y2): bool @since 7.2
+  Set the clipping rectangle
+imagesetinterpolation(GdImage $image, int $method = IMG_BILINEAR_FIXED): bool
+  Set the interpolation method
+imagesetpixel(GdImage $image, int $x, int $y, int $color): bool
+  Set a single pixel
+imagesetstyle(GdImage $image, array $style): bool
+  Set the style for line drawing
+imagesetthickness(GdImage $image, int $thickness): bool
+  Set the thickness for line drawing
+imagesettile(GdImage $image, GdImage $tile): bool
+  Set the tile image for filling
+imagestring(GdImage $image, GdFont|int $font, int $x, int $y, string $string, int $color): bool
+  Draw a string horizontally
+imagestringup(GdImage $image, GdFont|int $font, int $x, int $y, string $string, int $color): bool
+  Draw a string vertically
+imagesx(GdImage $image): int
+  Get image width
+imagesy(GdImage $image): int
+  Get image height
+imagetruecolortopalette(GdImage $image, bool $dither, int $num_colors): bool
+  Convert a true color image to a palette image
+imagettfbbox(float $size, float $angle, string $font_filename, string $string, array $options = []): array|false
+  Give the bounding box of a text using TrueType fonts
+imagettftext(GdImage $image, float $size, float $angle, int $x, int $y, int $color, string $font_filename, string $text, array $options = []): array|false
+  Write text to the image using TrueType fonts
+imagetypes(): int
+  Return the image types supported by this PHP build
+imagewbmp(GdImage $image, mixed $file = null, ?int $foreground_color = null): bool
+  Output image to browser or file
+imagewebp(GdImage $image, mixed $file = null, int $quality = -1): bool
+  Output a WebP image to browser or file
+imagexbm(GdImage $image, ?string $filename, ?int $foreground_color = null): bool
+  Output an XBM image to browser or file
+jpeg2wbmp(string $jpegname, string $wbmpname, int $dest_height, int $dest_width, int $threshold): bool @deprecated 7.2 @removed 8.0
+  Convert JPEG image file to WBMP image file
+png2wbmp(string $pngname, string $wbmpname, int $dest_height, int $dest_width, int $threshold): bool @deprecated 7.2 @removed 8.0
+  Convert PNG image file to WBMP image file`,
+
+  exif: `
+exif_imagetype(string $filename): int|false
+  Determine the type of an image
+exif_read_data(mixed $file, ?string $required_sections = null, bool $as_arrays = false, bool $read_thumbnail = false): array|false
+  Reads the EXIF headers from an image file
+exif_tagname(int $index): string|false
+  Get the header name for an index
+exif_thumbnail(mixed $file, int &$width = null, int &$height = null, int &$image_type = null): string|false
+  Retrieve the embedded thumbnail of an image
+read_exif_data(string $filename, ?string $sections = null, bool $arrays = false, bool $thumbnail = false): array|false @deprecated 7.2 @removed 8.0
+  Alias of exif_read_data`,
+
+  bcmath: `
+bcadd(string $num1, string $num2, ?int $scale = null): string
+  Add two arbitrary precision numbers
+bccomp(string $num1, string $num2, ?int $scale = null): int
+  Compare two arbitrary precision numbers
+bcdiv(string $num1, string $num2, ?int $scale = null): string
+  Divide two arbitrary precision numbers
+bcmod(string $num1, string $num2, ?int $scale = null): string
+  Get modulus of an arbitrary precision number
+bcmul(string $num1, string $num2, ?int $scale = null): string
+  Multiply two arbitrary precision numbers
+bcpow(string $num, string $exponent, ?int $scale = null): string
+  Raise an arbitrary precision number to another
+bcpowmod(string $num, string $exponent, string $modulus, ?int $scale = null): string
+  Raise an arbitrary precision number to another, reduced by a specified modulus
+bcscale(?int $scale = null): int
+  Set or get default scale parameter for all bc math functions
+bcsqrt(string $num, ?int $scale = null): string
+  Get the square root of an arbitrary precision number
+bcsub(string $num1, string $num2, ?int $scale = null): string
+  Subtract one arbitrary precision number from another`,
+
+  gmp: `
+gmp_abs(GMP|int|string $num): GMP
+  Absolute value
+gmp_add(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Add numbers
+gmp_and(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Bitwise AND
+gmp_binomial(GMP|int|string $n, int $k): GMP @since 7.3
+  Calculates binomial coefficient
+gmp_clrbit(GMP $num, int $index): void
+  Clear bit
+gmp_cmp(GMP|int|string $num1, GMP|int|string $num2): int
+  Compare numbers
+gmp_com(GMP|int|string $num): GMP
+  Calculates one's complement
+gmp_div_q(GMP|int|string $num1, GMP|int|string $num2, int $rounding_mode = GMP_ROUND_ZERO): GMP
+  Divide numbers
+gmp_div_qr(GMP|int|string $num1, GMP|int|string $num2, int $rounding_mode = GMP_ROUND_ZERO): array
+  Divide numbers and get quotient and remainder
+gmp_div_r(GMP|int|string $num1, GMP|int|string $num2, int $rounding_mode = GMP_ROUND_ZERO): GMP
+  Remainder of the division of numbers
+gmp_div(GMP|int|string $num1, GMP|int|string $num2, int $rounding_mode = GMP_ROUND_ZERO): GMP
+  Alias of gmp_div_q
+gmp_divexact(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Exact division of numbers
+gmp_export(GMP|int|string $num, int $word_size = 1, int $flags = GMP_MSW_FIRST | GMP_NATIVE_ENDIAN): string
+  Export to a binary string
+gmp_fact(GMP|int|string $num): GMP
+  Factorial
+gmp_gcd(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Calculate GCD
+gmp_gcdext(GMP|int|string $num1, GMP|int|string $num2): array
+  Calculate GCD and multipliers
+gmp_hamdist(GMP|int|string $num1, GMP|int|string $num2): int
+  Hamming distance
+gmp_import(string $data, int $word_size = 1, int $flags = GMP_MSW_FIRST | GMP_NATIVE_ENDIAN): GMP
+  Import from a binary string
+gmp_init(int|string $num, int $base = 0): GMP
+  Create GMP number
+gmp_intval(GMP|int|string $num): int
+  Convert GMP number to integer
+gmp_invert(GMP|int|string $num1, GMP|int|string $num2): GMP|false
+  Inverse by modulo
+gmp_jacobi(GMP|int|string $num1, GMP|int|string $num2): int
+  Jacobi symbol
+gmp_kronecker(GMP|int|string $num1, GMP|int|string $num2): int @since 7.3
+  Kronecker symbol
+gmp_lcm(GMP|int|string $num1, GMP|int|string $num2): GMP @since 7.3
+  Calculate LCM
+gmp_legendre(GMP|int|string $num1, GMP|int|string $num2): int
+  Legendre symbol
+gmp_mod(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Modulo operation
+gmp_mul(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Multiply numbers
+gmp_neg(GMP|int|string $num): GMP
+  Negate number
+gmp_nextprime(GMP|int|string $num): GMP
+  Find next prime number
+gmp_or(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Bitwise OR
+gmp_perfect_power(GMP|int|string $num): bool @since 7.3
+  Perfect power check
+gmp_perfect_square(GMP|int|string $num): bool
+  Perfect square check
+gmp_popcount(GMP|int|string $num): int
+  Population count
+gmp_pow(GMP|int|string $num, int $exponent): GMP
+  Raise number into power
+gmp_powm(GMP|int|string $num, GMP|int|string $exponent, GMP|int|string $modulus): GMP
+  Raise number into power with modulo
+gmp_prob_prime(GMP|int|string $num, int $repetitions = 10): int
+  Check if number is "probably prime"
+gmp_random_bits(int $bits): GMP
+  Random number
+gmp_random_range(GMP|int|string $min, GMP|int|string $max): GMP
+  Random number
+gmp_random_seed(GMP|int|string $seed): void
+  Sets the RNG seed
+gmp_random(int $limiter = 20): GMP @deprecated 7.2 @removed 8.0
+  Random number
+gmp_root(GMP|int|string $num, int $nth): GMP
+  Take the integer part of nth root
+gmp_rootrem(GMP|int|string $num, int $nth): array
+  Take the integer part and remainder of nth root
+gmp_scan0(GMP|int|string $num1, int $start): int
+  Scan for 0
+gmp_scan1(GMP|int|string $num1, int $start): int
+  Scan for 1
+gmp_setbit(GMP $num, int $index, bool $value = true): void
+  Set bit
+gmp_sign(GMP|int|string $num): int
+  Sign of number
+gmp_sqrt(GMP|int|string $num): GMP
+  Calculate square root
+gmp_sqrtrem(GMP|int|string $num): array
+  Square root with remainder
+gmp_strval(GMP|int|string $num, int $base = 10): string
+  Convert GMP number to string
+gmp_sub(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Subtract numbers
+gmp_testbit(GMP|int|string $num, int $index): bool
+  Tests if a bit is set
+gmp_xor(GMP|int|string $num1, GMP|int|string $num2): GMP
+  Bitwise XOR`,
+
+  pcntl: `
+pcntl_alarm(int $seconds): int
+  Set an alarm clock for delivery of a signal
+pcntl_async_signals(?bool $enable = null): bool @since 7.1
+  Enable/disable asynchronous signal handling or return the old setting
+pcntl_errno(): int
+  Alias of pcntl_get_last_error
+pcntl_exec(string $path, array $args = [], array $env_vars = []): bool
+  Executes specified program in current process space
+pcntl_fork(): int
+  Forks the currently running process
+pcntl_get_last_error(): int
+  Retrieve the error number set by the last pcntl function which failed
+pcntl_getpriority(?int $process_id = null, int $mode = PRIO_PROCESS): int|false
+  Get the priority of any process
+pcntl_rfork(int $flags, int $signal = 0): int @since 8.1
+  Manipulates process resources
+pcntl_setpriority(int $priority, ?int $process_id = null, int $mode = PRIO_PROCESS): bool
+  Change the priority of any process
+pcntl_signal_dispatch(): bool
+  Calls signal handlers for pending signals
+pcntl_signal_get_handler(int $signal): callable|int @since 7.1
+  Get the current handler for specified signal
+pcntl_signal(int $signal, callable|int $handler, bool $restart_syscalls = true): bool
+  Installs a signal handler
+pcntl_sigprocmask(int $mode, array $signals, array &$old_signals = null): bool
+  Sets and retrieves blocked signals
+pcntl_sigtimedwait(array $signals, array &$info = [], int $seconds = 0, int $nanoseconds = 0): int|false
+  Waits for signals, with a timeout
+pcntl_sigwaitinfo(array $signals, array &$info = []): int|false
+  Waits for signals
+pcntl_strerror(int $error_code): string
+  Retrieve the system error message associated with the given errno
+pcntl_unshare(int $flags): bool @since 7.4
+  Dissociates parts of the process execution context
+pcntl_wait(int &$status, int $flags = 0, array &$resource_usage = []): int
+  Waits on or returns the status of a forked child
+pcntl_waitpid(int $process_id, int &$status, int $flags = 0, array &$resource_usage = []): int
+  Waits on or returns the status of a forked child
+pcntl_wexitstatus(int $status): int|false
+  Returns the return code of a terminated child
+pcntl_wifexited(int $status): bool
+  Checks if status code represents a normal exit
+pcntl_wifsignaled(int $status): bool
+  Checks whether the status code represents a termination due to a signal
+pcntl_wifstopped(int $status): bool
+  Checks whether the child process is currently stopped
+pcntl_wstopsig(int $status): int|false
+  Returns the signal which caused the child to stop
+pcntl_wtermsig(int $status): int|false
+  Returns the signal which caused the child to terminate`,
+
+  json: `
+json_decode(string $json, ?bool $associative = null, int $depth = 512, int $flags = 0): mixed
+  Decodes a JSON string
+json_encode(mixed $value, int $flags = 0, int $depth = 512): string|false
+  Returns the JSON representation of a value
+json_last_error_msg(): string
+  Returns the error string of the last json_encode() or json_decode() call
+json_last_error(): int
+  Returns the last error occurred`,
+
+  curl: `
+curl_close(CurlHandle $handle): void
+  Close a cURL session
+curl_copy_handle(CurlHandle $handle): CurlHandle|false
+  Copy a cURL handle along with all of its preferences
+curl_errno(CurlHandle $handle): int
+  Return the last error number
+curl_error(CurlHandle $handle): string
+  Return a string containing the last error for the current session
+curl_escape(CurlHandle $handle, string $string): string|false
+  URL encodes the given string
+curl_exec(CurlHandle $handle): string|bool
+  Perform a cURL session
+curl_getinfo(CurlHandle $handle, ?int $option = null): mixed
+  Get information regarding a specific transfer
+curl_init(?string $url = null): CurlHandle|false
+  Initialize a cURL session
+curl_multi_add_handle(CurlMultiHandle $multi_handle, CurlHandle $handle): int
+  Add a normal cURL handle to a cURL multi handle
+curl_multi_close(CurlMultiHandle $multi_handle): void
+  Close a set of cURL handles
+curl_multi_errno(CurlMultiHandle $multi_handle): int @since 7.1
+  Return the last multi curl error number
+curl_multi_exec(CurlMultiHandle $multi_handle, int &$still_running): int
+  Run the sub-connections of the current cURL handle
+curl_multi_getcontent(CurlHandle $handle): ?string
+  Return the content of a cURL handle if CURLOPT_RETURNTRANSFER is set
+curl_multi_info_read(CurlMultiHandle $multi_handle, int &$queued_messages = null): array|false
+  Get information about the current transfers
+curl_multi_init(): CurlMultiHandle
+  Returns a new cURL multi handle
+curl_multi_remove_handle(CurlMultiHandle $multi_handle, CurlHandle $handle): int
+  Remove a multi handle from a set of cURL handles
+curl_multi_select(CurlMultiHandle $multi_handle, float $timeout = 1.0): int
+  Wait for activity on any curl_multi connection
+curl_multi_setopt(CurlMultiHandle $multi_handle, int $option, mixed $value): bool
+  Set a cURL multi option
+curl_multi_strerror(int $error_code): ?string
+  Return string describing error code
+curl_pause(CurlHandle $handle, int $flags): int
+  Pause and unpause a connection
+curl_reset(CurlHandle $handle): void
+  Reset all options of a libcurl session handle
+curl_setopt_array(CurlHandle $handle, array $options): bool
+  Set multiple options for a cURL transfer
+curl_setopt(CurlHandle $handle, int $option, mixed $value): bool
+  Set an option for a cURL transfer
+curl_share_close(CurlShareHandle $share_handle): void
+  Close a cURL share handle
+curl_share_errno(CurlShareHandle $share_handle): int @since 7.1
+  Return the last share curl error number
+curl_share_init(): CurlShareHandle
+  Initialize a cURL share handle
+curl_share_setopt(CurlShareHandle $share_handle, int $option, mixed $value): bool
+  Set an option for a cURL share handle
+curl_share_strerror(int $error_code): ?string
+  Return string describing the given error code
+curl_strerror(int $error_code): ?string
+  Return string describing the given error code
+curl_unescape(CurlHandle $handle, string $string): string|false
+  Decodes the given URL encoded string
+curl_upkeep(CurlHandle $handle): bool @since 8.2
+  Performs any connection upkeep checks
+curl_version(): array|false
+  Gets cURL version information`,
+
+  sockets: `
+socket_accept(Socket $socket): Socket|false
+  Accepts a connection on a socket
+socket_addrinfo_bind(AddressInfo $address): Socket|false @since 7.2
+  Create and bind to a socket from a given addrinfo
+socket_addrinfo_connect(AddressInfo $address): Socket|false @since 7.2
+  Create and connect to a socket from a given addrinfo
+socket_addrinfo_explain(AddressInfo $address): array @since 7.2
+  Get information about addrinfo
+socket_addrinfo_lookup(string $host, ?string $service = null, array $hints = []): array|false @since 7.2
+  Get array with contents of getaddrinfo about the given hostname
+socket_bind(Socket $socket, string $address, int $port = 0): bool
+  Binds a name to a socket
+socket_clear_error(?Socket $socket = null): void
+  Clears the error on the socket or the last error code
+socket_close(Socket $socket): void
+  Closes a Socket instance
+socket_cmsg_space(int $level, int $type, int $num = 0): ?int
+  Calculate message buffer size
+socket_connect(Socket $socket, string $address, ?int $port = null): bool
+  Initiates a connection on a socket
+socket_create_listen(int $port, int $backlog = 128): Socket|false
+  Opens a socket on port to accept connections
+socket_create_pair(int $domain, int $type, int $protocol, array &$pair): bool
+  Creates a pair of indistinguishable sockets and stores them in an array
+socket_create(int $domain, int $type, int $protocol): Socket|false
+  Create a socket (endpoint for communication)
+socket_export_stream(Socket $socket): mixed
+  Export a socket into a stream that encapsulates a socket
+socket_get_option(Socket $socket, int $level, int $option): array|int|false
+  Gets socket options for the socket
+socket_getopt(Socket $socket, int $level, int $option): array|int|false
+  Alias of socket_get_option
+socket_getpeername(Socket $socket, string &$address, int &$port = null): bool
+  Queries the remote side of the given socket
+socket_getsockname(Socket $socket, string &$address, int &$port = null): bool
+  Queries the local side of the given socket
+socket_import_stream(mixed $stream): Socket|false
+  Import a stream
+socket_last_error(?Socket $socket = null): int
+  Returns the last error on the socket
+socket_listen(Socket $socket, int $backlog = 0): bool
+  Listens for a connection on a socket
+socket_read(Socket $socket, int $length, int $mode = PHP_BINARY_READ): string|false
+  Reads a maximum of length bytes from a socket
+socket_recv(Socket $socket, ?string &$data, int $length, int $flags): int|false
+  Receives data from a connected socket
+socket_recvfrom(Socket $socket, string &$data, int $length, int $flags, string &$address, int &$port = null): int|false
+  Receives data from a socket whether or not it is connection-oriented
+socket_recvmsg(Socket $socket, array &$message, int $flags = 0): int|false
+  Read a message
+socket_select(?array &$read, ?array &$write, ?array &$except, ?int $seconds, int $microseconds = 0): int|false
+  Runs the select() system call on the given arrays of sockets with a specified timeout
+socket_send(Socket $socket, string $data, int $length, int $flags): int|false
+  Sends data to a connected socket
+socket_sendmsg(Socket $socket, array $message, int $flags = 0): int|false
+  Send a message
+socket_sendto(Socket $socket, string $data, int $length, int $flags, string $address, ?int $port = null): int|false
+  Sends a message to a socket, whether it is connected or not
+socket_set_block(Socket $socket): bool
+  Sets blocking mode on a socket
+socket_set_nonblock(Socket $socket): bool
+  Sets nonblocking mode for file descriptor fd
+socket_set_option(Socket $socket, int $level, int $option, array|string|int $value): bool
+  Sets socket options for the socket
+socket_setopt(Socket $socket, int $level, int $option, array|string|int $value): bool
+  Alias of socket_set_option
+socket_shutdown(Socket $socket, int $mode = 2): bool
+  Shuts down a socket for receiving, sending, or both
+socket_strerror(int $error_code): string
+  Return a string describing a socket error
+socket_write(Socket $socket, string $data, ?int $length = null): int|false
+  Write to a socket
+socket_wsaprotocol_info_export(Socket $socket, int $process_id): string|false @since 7.3
+  Exports the WSAPROTOCOL_INFO Structure
+socket_wsaprotocol_info_import(string $info_id): Socket|false @since 7.3
+  Imports a Socket from another Process
+socket_wsaprotocol_info_release(string $info_id): bool @since 7.3
+  Releases an exported WSAPROTOCOL_INFO Structure`,
+
+  session: `
+session_abort(): bool
+  Discard session array changes and finish session
+session_cache_expire(?int $value = null): int|false
+  Get and/or set current cache expire
+session_cache_limiter(?string $value = null): string|false
+  Get and/or set the current cache limiter
+session_commit(): bool
+  Alias of session_write_close
+session_create_id(string $prefix = ""): string|false @since 7.1
+  Create new session id
+session_decode(string $data): bool
+  Decodes session data from a session encoded string
+session_destroy(): bool
+  Destroys all data registered to a session
+session_encode(): string|false
+  Encodes the current session data as a session encoded string
+session_gc(): int|false @since 7.1
+  Perform session data garbage collection
+session_get_cookie_params(): array
+  Get the session cookie parameters
+session_id(?string $id = null): string|false
+  Get and/or set the current session id
+session_module_name(?string $module = null): string|false
+  Get and/or set the current session module
+session_name(?string $name = null): string|false
+  Get and/or set the current session name
+session_regenerate_id(bool $delete_old_session = false): bool
+  Update the current session id with a newly generated one
+session_register_shutdown(): void
+  Session shutdown function
+session_reset(): bool
+  Re-initialize session array with original values
+session_save_path(?string $path = null): string|false
+  Get and/or set the current session save path
+session_set_cookie_params(array $lifetime_or_options): bool
+  Set the session cookie parameters
+session_set_save_handler(SessionHandlerInterface $sessionhandler, bool $register_shutdown = true): bool
+  Sets user-level session storage functions
+session_start(array $options = []): bool
+  Start new or resume existing session
+session_status(): int
+  Returns the current session status
+session_unset(): bool
+  Free all session variables
+session_write_close(): bool
+  Write session data and end session`,
+
+  filter: `
+filter_has_var(int $input_type, string $var_name): bool
+  Checks if variable of specified type exists
+filter_id(string $name): int|false
+  Returns the filter ID belonging to a named filter
+filter_input_array(int $type, array|int $options = FILTER_DEFAULT, bool $add_empty = true): array|false|null
+  Gets external variables and optionally filters them
+filter_input(int $type, string $var_name, int $filter = FILTER_DEFAULT, array|int $options = 0): mixed
+  Gets a specific external variable by name and optionally filters it
+filter_list(): array
+  Returns a list of all supported filters
+filter_var_array(array $array, array|int $options = FILTER_DEFAULT, bool $add_empty = true): array|false|null
+  Gets multiple variables and optionally filters them
+filter_var(mixed $value, int $filter = FILTER_DEFAULT, array|int $options = 0): mixed
+  Filters a variable with a specified filter`,
+
+  xml: `
+xml_error_string(int $error_code): ?string
+  Get XML parser error string
+xml_get_current_byte_index(XMLParser $parser): int
+  Get current byte index for an XML parser
+xml_get_current_column_number(XMLParser $parser): int
+  Get current column number for an XML parser
+xml_get_current_line_number(XMLParser $parser): int
+  Get current line number for an XML parser
+xml_get_error_code(XMLParser $parser): int
+  Get XML parser error code
+xml_parse_into_struct(XMLParser $parser, string $data, array &$values, array &$index = null): int
+  Parse XML data into an array structure
+xml_parse(XMLParser $parser, string $data, bool $is_final = false): int
+  Start parsing an XML document
+xml_parser_create_ns(?string $encoding = null, string $separator = ":"): XMLParser
+  Create an XML parser with namespace support
+xml_parser_create(?string $encoding = null): XMLParser
+  Create an XML parser
+xml_parser_free(XMLParser $parser): bool
+  Free an XML parser
+xml_parser_get_option(XMLParser $parser, int $option): string|int|bool
+  Get options from an XML parser
+xml_parser_set_option(XMLParser $parser, int $option, mixed $value): bool
+  Set options in an XML parser
+xml_set_character_data_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up character data handler
+xml_set_default_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up default handler
+xml_set_element_handler(XMLParser $parser, callable|string|null $start_handler, callable|string|null $end_handler): bool
+  Set up start and end element handlers
+xml_set_end_namespace_decl_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up end namespace declaration handler
+xml_set_external_entity_ref_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up external entity reference handler
+xml_set_notation_decl_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up notation declaration handler
+xml_set_object(XMLParser $parser, object $object): true @deprecated 8.4
+  Use XML Parser within an object
+xml_set_processing_instruction_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up processing instruction (PI) handler
+xml_set_start_namespace_decl_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up start namespace declaration handler
+xml_set_unparsed_entity_decl_handler(XMLParser $parser, callable|string|null $handler): bool
+  Set up unparsed entity declaration handler`
+}
+
+// Predefined variables and constants. Each entry is a line holding
+// the name, type, and (for constants with a fixed value) the value,
+// followed by an indented description line.
+export const constantStubs = `
+$GLOBALS: array
+  References all variables available in the global scope
+$_SERVER: array
+  Server and execution environment information
+$_GET: array
+  Variables passed to the script via the URL query string
+$_POST: array
+  Variables passed to the script via an HTTP POST request
+$_FILES: array
+  Items uploaded to the script via an HTTP POST request
+$_COOKIE: array
+  Variables passed to the script via HTTP cookies
+$_SESSION: array
+  Session variables available to the script
+$_REQUEST: array
+  The contents of $_GET, $_POST, and $_COOKIE
+$_ENV: array
+  Variables passed to the script via the environment
+__LINE__: int
+  The current line number of the file
+__FILE__: string
+  The full path and filename of the file
+__DIR__: string
+  The directory of the file
+__FUNCTION__: string
+  The name of the current function
+__CLASS__: string
+  The name of the current class, including its namespace
+__TRAIT__: string
+  The name of the current trait, including its namespace
+__METHOD__: string
+  The name of the current class method
+__NAMESPACE__: string
+  The name of the current namespace
+PHP_EOL: string
+  The correct end of line symbol for this platform
+PHP_VERSION: string
+  The current PHP version as a string in "major.minor.release[extra]" notation
+PHP_MAJOR_VERSION: int
+  The current PHP major version
+PHP_MINOR_VERSION: int
+  The current PHP minor version
+PHP_OS: string
+  The operating system PHP was built for
+PHP_OS_FAMILY: string
+  The operating system family PHP was built for
+PHP_INT_MAX: int
+  The largest integer supported
+PHP_INT_MIN: int
+  The smallest integer supported
+PHP_INT_SIZE: int
+  The size of an integer in bytes
+PHP_FLOAT_EPSILON: float
+  Smallest representable positive number x, so that x + 1.0 != 1.0
+PHP_FLOAT_MAX: float
+  Largest representable floating point number
+PHP_FLOAT_MIN: float
+  Smallest representable positive normalized floating point number
+NAN: float
+  Not a number
+INF: float
+  Infinity
+M_PI: float = 3.14159265358979323846
+  The value of pi
+DIRECTORY_SEPARATOR: string
+  The character separating directories in paths on this platform
+PATH_SEPARATOR: string
+  The character separating paths in the include path on this platform
+SCANDIR_SORT_ASCENDING: int = 0
+  Sort the result of scandir() alphabetically in ascending order
+SCANDIR_SORT_DESCENDING: int = 1
+  Sort the result of scandir() alphabetically in descending order
+SCANDIR_SORT_NONE: int = 2
+  Don't sort the result of scandir()
+E_ERROR: int = 1
+  Fatal run-time errors, after which execution is halted
+E_WARNING: int = 2
+  Run-time warnings, which don't halt execution
+E_PARSE: int = 4
+  Compile-time parse errors
+E_NOTICE: int = 8
+  Run-time notices, indicating something that could be an error
+E_CORE_ERROR: int = 16
+  Fatal errors that occur during PHP's initial startup
+E_CORE_WARNING: int = 32
+  Warnings that occur during PHP's initial startup
+E_COMPILE_ERROR: int = 64
+  Fatal compile-time errors
+E_COMPILE_WARNING: int = 128
+  Compile-time warnings
+E_USER_ERROR: int = 256
+  User-generated error message, generated by trigger_error()
+E_USER_WARNING: int = 512
+  User-generated warning message, generated by trigger_error()
+E_USER_NOTICE: int = 1024
+  User-generated notice message, generated by trigger_error()
+E_STRICT: int = 2048
+  Suggestions for changes to the code that ensure forward compatibility
+E_RECOVERABLE_ERROR: int = 4096
+  Catchable fatal errors
+E_DEPRECATED: int = 8192
+  Warnings about code that won't work in future versions
+E_USER_DEPRECATED: int = 16384
+  User-generated deprecation message, generated by trigger_error()
+E_ALL: int = 32767
+  All errors and warnings
+CASE_LOWER: int = 0
+  Make array_change_key_case() convert keys to lower case
+CASE_UPPER: int = 1
+  Make array_change_key_case() convert keys to upper case
+SORT_ASC: int = 4
+  Sort in ascending order
+SORT_DESC: int = 3
+  Sort in descending order
+SORT_REGULAR: int = 0
+  Compare items normally, without changing types
+SORT_NUMERIC: int = 1
+  Compare items numerically
+SORT_STRING: int = 2
+  Compare items as strings
+SORT_LOCALE_STRING: int = 5
+  Compare items as strings, based on the current locale
+SORT_NATURAL: int = 6
+  Compare items as strings using natural ordering
+SORT_FLAG_CASE: int = 8
+  Combined with SORT_STRING or SORT_NATURAL, sort strings case-insensitively
+ARRAY_FILTER_USE_KEY: int = 2
+  Pass the key as the only argument to the array_filter() callback
+ARRAY_FILTER_USE_BOTH: int = 1
+  Pass both value and key as arguments to the array_filter() callback
+COUNT_NORMAL: int = 0
+  Make count() count only the top level of an array
+COUNT_RECURSIVE: int = 1
+  Make count() count the elements of an array recursively
+EXTR_OVERWRITE: int = 0
+  Make extract() overwrite existing variables
+EXTR_SKIP: int = 1
+  Make extract() skip existing variables
+EXTR_PREFIX_SAME: int = 2
+  Make extract() prefix the names of existing variables
+EXTR_PREFIX_ALL: int = 3
+  Make extract() prefix all variable names
+EXTR_PREFIX_INVALID: int = 4
+  Make extract() prefix only invalid or numeric variable names
+EXTR_PREFIX_IF_EXISTS: int = 5
+  Make extract() only create prefixed variables for existing variables
+EXTR_IF_EXISTS: int = 6
+  Make extract() only overwrite existing variables
+EXTR_REFS: int = 256
+  Make extract() extract variables as references
+JSON_PRETTY_PRINT: int = 128
+  Make json_encode() use whitespace to format the output
+JSON_UNESCAPED_SLASHES: int = 64
+  Make json_encode() leave / unescaped
+JSON_UNESCAPED_UNICODE: int = 256
+  Make json_encode() encode multibyte Unicode characters literally
+JSON_THROW_ON_ERROR: int = 4194304
+  Make JSON functions throw a JsonException on errors`
@@ -0,0 +1,373 @@
+import {SyntaxNode, Tree} from "@lezer/common"
+import {EditorState, Text} from "@codemirror/state"
+import {syntaxTree} from "@codemirror/language"
+import {enclosingClass, variableSource, typeName, typeChild, BuiltinTypes} from "./scope"
+import {classStubs} from "./builtins"
+import {NamespaceScope, namespaceScope, resolveName} from "./names"
+import {projectIndex} from "./project"
+import {findFunction} from "./functions"
+import {docSummary, docTags, docTypeName} from "./phpdoc"
+
+/// Describes a constant, property, method, or enum case of a class.
+export interface MemberInfo {
+  /// The member's name. Property names do not include the `$`.
+  name: string
+  kind: "method" | "property" | "constant" | "case"
+  visibility: "public" | "protected" | "private"
+  static: boolean
+  /// The (fully qualified) name of the property's type or the
+  /// method's return type, if known.
+  type?: string
+  /// The signature or type shown in completions.
+  detail?: string
+  /// A short description of the member, such as the summary of its
+  /// doc comment.
+  description?: string
+  /// The fully qualified name of the class that declares the member.
+  owner: string
+}
+
+/// Describes a class, interface, trait, or enum.
+export interface ClassInfo {
+  /// The fully qualified name, without leading backslash.
+  name: string
+  kind: "class" | "interface" | "trait" | "enum"
+  /// The class that is extended or, for interfaces, the interfaces
+  /// that are extended.
+  parents: readonly string[]
+  interfaces: readonly string[]
+  traits: readonly string[]
+  members: readonly MemberInfo[]
+  /// A short description of the class, such as the summary of its
+  /// doc comment.
+  description?: string
+}
+
+const ClassNodeKinds: {[name: string]: ClassInfo["kind"]} = {
+  ClassDeclaration: "class",
+  InterfaceDeclaration: "interface",
+  TraitDeclaration: "trait",
+  EnumDeclaration: "enum",
+  NewExpression: "class"
+}
+
+// Resolve a type or class name as written in the given namespace
+// scope.
+function qualify(name: string, scope: NamespaceScope) {
+  return BuiltinTypes.test(name) ? name : resolveName(scope, name, "class")
+}
+
+function anonymousName(node: SyntaxNode) { return "class@anonymous:" + node.from }
+
+function classNameOf(doc: Text, tree: Tree, node: SyntaxNode) {
+  if (node.name == "NewExpression") return anonymousName(node)
+  let id = node.getChild("Name"), ns = namespaceScope(doc, tree, node.from).name
+  return id ? (ns ? ns + "\\" : "") + doc.sliceString(id.from, id.to) : null
+}
+
+function nameList(doc: Text, node: SyntaxNode | null, scope: NamespaceScope) {
+  let names: string[] = []
+  if (node) for (let ch = node.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name == "Name" || ch.name == "QualifiedName") names.push(qualify(doc.sliceString(ch.from, ch.to), scope))
+  }
+  return names
+}
+
+function readType(doc: Text, node: SyntaxNode, scope: NamespaceScope) {
+  let type = typeChild(node), name = type && typeName(doc, type)
+  return {type: name ? qualify(name, scope) : undefined, text: type ? doc.sliceString(type.from, type.to) : undefined}
+}
+
+function readClass(doc: Text, node: SyntaxNode, name: string, scope: NamespaceScope): ClassInfo {
+  let kind = ClassNodeKinds[node.name], members: MemberInfo[] = [], traits: string[] = []
+  let interfaces = nameList(doc, node.getChild("ClassInterfaceClause"), scope)
+  if (kind == "enum") interfaces.push(node.getChild("Type") ? "BackedEnum" : "UnitEnum")
+  function member(id: SyntaxNode, kind: MemberInfo["kind"], decl: SyntaxNode, type?: string, detail?: string) {
+    let visibility: MemberInfo["visibility"] = "public", isStatic = kind == "constant" || kind == "case"
+    for (let ch = decl.firstChild; ch; ch = ch.nextSibling) {
+      if (ch.name == "Visibility") visibility = doc.sliceString(ch.from, ch.to).toLowerCase() as MemberInfo["visibility"]
+      else if (ch.name == "static") isStatic = true
+    }
+    let memberName = doc.sliceString(kind == "property" ? id.from + 1 : id.from, id.to)
+    members.push({name: memberName, kind, visibility, static: isStatic, type, detail,
+                  description: docSummary(doc, decl), owner: name})
+  }
+  let body = node.getChild("DeclarationList") || node.getChild("EnumBody")
+  if (body) for (let decl = body.firstChild; decl; decl = decl.nextSibling) {
+    if (decl.name == "ConstDeclaration") {
+      for (let d of decl.getChildren("VariableDeclarator")) {
+        let id = d.getChild("Name")
+        if (id) member(id, "constant", decl)
+      }
+    } else if (decl.name == "PropertyDeclaration") {
+      let {type, text} = readType(doc, decl, scope)
+      // Untyped properties may have their type in a `@var` tag
+      if (!type) for (let tag of docTags(doc, decl)) {
+        let docType = tag.name == "var" && tag.type && docTypeName(tag.type.text)
+        if (docType) { type = qualify(docType, scope); text = tag.type!.text; break }
+      }
+      for (let d of decl.getChildren("VariableDeclarator")) {
+        let id = d.getChild("VariableName")
+        if (id) member(id, "property", decl, type, text)
+      }
+    } else if (decl.name == "MethodDeclaration") {
+      let id = decl.getChild("Name"), params = decl.getChild("ParamList")
+      if (!id || !params) continue
+      let {type, text} = readType(doc, decl, scope)
+      member(id, "method", decl, type, doc.sliceString(params.from, params.to).replace(/\s+/g, " ") + (text ? ": " + text : ""))
+      if (/^__construct$/i.test(doc.sliceString(id.from, id.to))) for (let param of params.getChildren("PropertyParameter")) {
+        let pid = param.getChild("VariableName"), {type, text} = readType(doc, param, scope)
+        if (pid) member(pid, "property", param, type, text)
+      }
+    } else if (decl.name == "UseDeclaration") {
+      traits.push(...nameList(doc, decl, scope))
+    } else if (decl.name == "EnumCase") {
+      let id = decl.getChild("Name")
+      if (id) member(id, "case", decl, name)
+    }
+  }
+  return {name, kind, parents: nameList(doc, node.getChild("BaseClause"), scope), interfaces, traits, members,
+          description: docSummary(doc, node)}
+}
+
+const documentCache = new WeakMap<Tree, Map<string, ClassInfo>>()
+
+/// Read the classes defined in a syntax tree, keyed by their
+/// lower-case fully qualified name.
+export function readClasses(doc: Text, tree: Tree) {
+  let classes = new Map<string, ClassInfo>()
+  tree.iterate({
+    enter(node) {
+      if (!ClassNodeKinds[node.name] || node.name == "NewExpression" && !node.node.getChild("DeclarationList")) return
+      let name = classNameOf(doc, tree, node.node)
+      if (name) classes.set(name.toLowerCase(), readClass(doc, node.node, name, namespaceScope(doc, tree, node.from)))
+    }
+  })
+  return classes
+}
+
+/// Get the classes defined in the document, keyed by their lower-case
+/// fully qualified name.
+export function documentClasses(state: EditorState) {
+  let tree = syntaxTree(state), found = documentCache.get(tree)
+  if (!found) documentCache.set(tree, found = readClasses(state.doc, tree))
+  return found
+}
+
+const stubMember =
+  /^(?:(public|protected|private) )?(static )?(?:const (\w+)|(?:(\S+) )?\$(\w+)|(\w+)(\(.*\))(?:: (\S+))?)$/
+
+function stubType(type: string) {
+  for (let part of type.replace(/^\?/, "").split("|")) if (!/^(null|false)$/.test(part)) return part
+  return undefined
+}
+
+function readStub(stub: string): ClassInfo {
+  let [header, ...lines] = stub.split("\n"), description = undefined
+  if (lines.length && /^\s*\/\//.test(lines[0])) description = lines.shift()!.replace(/^\s*\/\/\s*/, "")
+  let [, kind, name, parents, interfaces] =
+    /^(\w+) (\w+)(?: extends ([\w, ]+?))?(?: implements ([\w, ]+))?$/.exec(header)!
+  let members = lines.map(line => {
+    let [, visibility, isStatic, constant, propType, prop, method, params, returns] = stubMember.exec(line.trim())!
+    return {
+      name: constant || prop || method,
+      kind: constant ? "constant" : prop ? "property" : "method",
+      visibility: visibility || "public",
+      static: !!(constant || isStatic),
+      type: propType ? stubType(propType) : returns ? stubType(returns) : undefined,
+      detail: method ? params + (returns ? ": " + returns : "") : propType,
+      owner: name
+    } as MemberInfo
+  })
+  let list = (names?: string) => names ? names.split(/,\s*/) : []
+  return {name, kind: kind as ClassInfo["kind"], parents: list(parents), interfaces: list(interfaces), traits: [], members,
+          description}
+}
+
+let builtinClasses: Map<string, ClassInfo> | null = null
+
+/// Get the built-in classes known to the package, keyed by lower-case
+/// name.
+export function builtinClassMap(): ReadonlyMap<string, ClassInfo> {
+  if (!builtinClasses) {
+    builtinClasses = new Map
+    for (let stub of classStubs) {
+      let info = readStub(stub)
+      builtinClasses.set(info.name.toLowerCase(), info)
+    }
+  }
+  return builtinClasses
+}
+
+function builtinClass(name: string) {
+  return builtinClassMap().get(name) || null
+}
+
+/// Look up a class by fully qualified name, in the document, the
+/// [project index](#lang-php.projectIndex), and among PHP's built-in
+/// classes.
+export function findClass(state: EditorState, name: string): ClassInfo | null {
+  let key = name.toLowerCase()
+  return documentClasses(state).get(key) || state.facet(projectIndex).classes.get(key) || builtinClass(key) ||
+    (key.indexOf("\\") > -1 ? builtinClass(key.slice(key.lastIndexOf("\\") + 1)) : null)
+}
+
+function memberKey(member: MemberInfo) {
+  return member.kind == "method" ? member.name.toLowerCase() : member.kind == "property" ? "$" + member.name : member.name
+}
+
+/// Get the members of a class, including those it inherits from its
+/// parent classes, interfaces, and traits. Members used from traits
+/// are treated as being declared by the class that uses the trait.
+export function classMembers(state: EditorState, cls: ClassInfo) {
+  let members: MemberInfo[] = [], seen = new Set<string>(), visited = new Set<string>()
+  function add(cls: ClassInfo, owner: string | null) {
+    let key = cls.name.toLowerCase()
+    if (visited.has(key)) return
+    visited.add(key)
+    for (let member of cls.members) {
+      let key = memberKey(member)
+      if (seen.has(key)) continue
+      seen.add(key)
+      members.push(owner ? {...member, owner} : member)
+    }
+    for (let trait of cls.traits) {
+      let info = findClass(state, trait)
+      if (info) add(info, owner || cls.name)
+    }
+    for (let parent of cls.parents.concat(cls.interfaces)) {
+      let info = findClass(state, parent)
+      if (info) add(info, null)
+    }
+  }
+  add(cls, null)
+  return members
+}
+
+/// Find a member of the given kinds by name in a class or its
+/// ancestors. Method names are matched case-insensitively.
+export function findMember(state: EditorState, cls: string | null, name: string, kinds: readonly MemberInfo["kind"][]) {
+  let info = cls && findClass(state, cls)
+  if (!info) return null
+  let lower = name.toLowerCase()
+  return classMembers(state, info).find(m => kinds.indexOf(m.kind) > -1 &&
+    (m.kind == "method" ? m.name.toLowerCase() == lower : m.name == name)) || null
+}
+
+// Node types in which a name refers to a class.
+const ClassContext = /^(NewExpression|NamedType|BaseClause|ClassInterfaceClause|UseDeclaration|CatchDeclarator|ScopedExpression|Attribute)$/
+
+// Check whether a name node refers to a class.
+export function isClassReference(doc: Text, id: SyntaxNode) {
+  let parent = id.parent!, prev = id.prevSibling
+  if (parent.name == "ScopedExpression") return parent.firstChild!.from == id.from
+  return ClassContext.test(parent.name) ||
+    parent.name == "BinaryExpression" && !!prev && doc.sliceString(prev.from, prev.to).toLowerCase() == "instanceof"
+}
+
+/// Check whether class `sub` is, or derives from, class `sup`.
+export function isSubclass(state: EditorState, sub: string, sup: string, depth = 0): boolean {
+  if (sub.toLowerCase() == sup.toLowerCase()) return true
+  let info = depth < 20 && findClass(state, sub)
+  return !!info && info.parents.concat(info.interfaces, info.traits).some(p => isSubclass(state, p, sup, depth + 1))
+}
+
+/// Check whether a member is accessible from code in class `context`.
+export function isVisible(state: EditorState, member: MemberInfo, context: string | null) {
+  if (member.visibility == "public") return true
+  if (!context) return false
+  if (member.visibility == "private") return member.owner.toLowerCase() == context.toLowerCase()
+  return isSubclass(state, context, member.owner) || isSubclass(state, member.owner, context)
+}
+
+// Get the fully qualified name of the class that a node is part of.
+export function ownClassName(state: EditorState, node: SyntaxNode) {
+  let cls = enclosingClass(node)
+  return cls && classNameOf(state.doc, syntaxTree(state), cls)
+}
+
+/// Resolve a class name as written at the position of `at`, taking
+/// the current namespace, imports, and `self`, `static`, and `parent`
+/// into account.
+export function resolveClassName(state: EditorState, name: string, at: SyntaxNode) {
+  let lower = name.toLowerCase()
+  if (lower == "self" || lower == "static") return ownClassName(state, at)
+  if (lower == "parent") {
+    let own = ownClassName(state, at), info = own && findClass(state, own)
+    return info && info.parents.length ? info.parents[0] : null
+  }
+  return BuiltinTypes.test(name) ? null : qualify(name, namespaceScope(state.doc, syntaxTree(state), at.from))
+}
+
+// Get the class of the value held by a member, as declared by its
+// type.
+export function memberType(state: EditorState, cls: string | null, name: string, kind: MemberInfo["kind"]) {
+  let info = cls && findClass(state, cls)
+  if (!info) return null
+  let member = classMembers(state, info).find(m => m.kind == kind && (kind == "method" ? m.name.toLowerCase() == name.toLowerCase() : m.name == name))
+  if (!member || !member.type) return null
+  let type = member.type.toLowerCase()
+  if (type == "static" || type == "self") return info.name
+  if (type == "parent") return info.parents.length ? info.parents[0] : null
+  return BuiltinTypes.test(type) ? null : member.type
+}
+
+// Determine the class of the value held by the variable `name` at
+// the position of `at`.
+export function variableClass(state: EditorState, name: string, at: SyntaxNode, depth = 0): string | null {
+  if (name == "$this") return ownClassName(state, at)
+  let doc = state.doc, source = variableSource(doc, name, at)
+  if (!source) return null
+  let type = source.type && typeName(doc, source.type)
+  let cls = type ? resolveClassName(state, type, source.type!) : null
+  // Fall back to the type from the doc comment for untyped or
+  // loosely typed (`object`, `mixed`) variables
+  if (!cls && source.docType) cls = resolveClassName(state, source.docType, at)
+  if (cls || source.type) return cls
+  return source.value ? expressionClass(state, source.value, depth + 1) : null
+}
+
+/// Try to determine the class of the value an expression produces.
+/// Returns the class's fully qualified name, or null if it can't be
+/// determined.
+export function expressionClass(state: EditorState, node: SyntaxNode, depth = 0): string | null {
+  if (depth > 10) return null
+  let doc = state.doc
+  switch (node.name) {
+    case "VariableName":
+      return variableClass(state, doc.sliceString(node.from, node.to), node, depth)
+    case "Name": case "QualifiedName":
+      return resolveClassName(state, doc.sliceString(node.from, node.to), node)
+    case "NewExpression": {
+      if (node.getChild("DeclarationList")) return anonymousName(node)
+      let cls = node.getChild("new")?.nextSibling
+      return cls && (cls.name == "Name" || cls.name == "QualifiedName") ? expressionClass(state, cls, depth + 1) : null
+    }
+    case "ParenthesizedExpression": case "CloneExpression": {
+      let inner = node.lastChild && node.lastChild.type.is("Expression") ? node.lastChild : node.lastChild?.prevSibling
+      return inner ? expressionClass(state, inner, depth + 1) : null
+    }
+    case "MemberExpression": {
+      let object = node.firstChild, prop = node.lastChild
+      if (!object || !prop || prop.name != "Name") return null
+      return memberType(state, expressionClass(state, object, depth + 1), doc.sliceString(prop.from, prop.to), "property")
+    }
+    case "ScopedExpression": {
+      let cls = node.firstChild, member = node.getChild("ClassMemberName")?.firstChild
+      if (!cls || !member) return null
+      let clsName = expressionClass(state, cls, depth + 1), name = doc.sliceString(member.from, member.to)
+      if (member.name == "VariableName") return memberType(state, clsName, name.slice(1), "property")
+      return member.name == "Name" ? memberType(state, clsName, name, "case") : null
+    }
+    case "CallExpression": {
+      let callee = node.firstChild, id = callee?.lastChild
+      if (callee && (callee.name == "Name" || callee.name == "QualifiedName"))
+        return findFunction(state, doc.sliceString(callee.from, callee.to), callee.from)?.type || null
+      if (!callee || !id || callee.name != "MemberExpression" && callee.name != "ScopedExpression") return null
+      if (id.name == "ClassMemberName") id = id.firstChild
+      if (!id || id.name != "Name") return null
+      return memberType(state, expressionClass(state, callee.firstChild!, depth + 1), doc.sliceString(id.from, id.to), "method")
+    }
+  }
+  return null
+}
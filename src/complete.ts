@@ -1,30 +1,84 @@
-import {NodeWeakMap, SyntaxNodeRef, SyntaxNode, IterMode} from "@lezer/common"
-import {Completion, CompletionContext, CompletionResult, completeFromList, ifNotIn,
-        snippetCompletion as snip} from "@codemirror/autocomplete"
+import {NodeWeakMap, SyntaxNodeRef, SyntaxNode, IterMode, Tree} from "@lezer/common"
+import {Completion, CompletionContext, CompletionResult, CompletionSource, completeFromList, ifNotIn,
+        insertCompletionText, pickedCompletion} from "@codemirror/autocomplete"
 import {syntaxTree} from "@codemirror/language"
-import {Text} from "@codemirror/state"
+import {EditorState, Text} from "@codemirror/state"
+import {ScopeNodes, IsolatedScopes, enclosingScope, variableScope} from "./scope"
+import {MemberInfo, ClassInfo, findClass, classMembers, isVisible, expressionClass, variableClass, memberType,
+        ownClassName, documentClasses, builtinClassMap} from "./classes"
+import {Signature, functionCompletions, documentFunctions, functionDetail} from "./functions"
+import {ConstantInfo, ProjectSymbols, projectIndex} from "./project"
+import {phpVersion} from "./version"
+import {builtinConstant, documentConstants} from "./constants"
+import {NameKind, NamespaceScope, namespaceScope, findImport, resolveName, splitName, importChange,
+        hasGlobalFallback} from "./names"
 
 const cache = new NodeWeakMap<readonly Completion[]>()
 
-const ScopeNodes = new Set([
-  "Script", "Body",
-  "FunctionDefinition", "ClassDefinition", "LambdaExpression",
-  "ForStatement"
-])
-
-function defID(type: string) {
-  return (node: SyntaxNodeRef, def: (node: SyntaxNodeRef, type: string) => void) => {
-    let id = node.node.getChild("VariableName")
-    if (id) def(id, type)
-    return true
+type Def = (node: SyntaxNodeRef, type: string) => void
+
+function skip() { return true }
+
+function defVar(node: SyntaxNodeRef, def: Def) {
+  let id = node.node.getChild("VariableName")
+  if (id) def(id, "variable")
+}
+
+function defVars(node: SyntaxNodeRef, def: Def) {
+  for (let ch = node.node.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name == "VariableName") def(ch, "variable")
+    else if (ch.name == "VariableDeclarator") defVar(ch, def)
+  }
+  return true
+}
+
+// Define the variables bound by an assignment target, including the
+// ones in `list()` and `[...]` destructuring patterns.
+function defTarget(node: SyntaxNode, def: Def) {
+  if (node.name == "VariableName") {
+    def(node, "variable")
+  } else if (node.name == "ListExpression" || node.name == "ArrayExpression") {
+    for (let ch = (node.getChild("ValueList") || node).firstChild; ch; ch = ch.nextSibling) {
+      if (ch.name == "Pair") { if (ch.lastChild) defTarget(ch.lastChild, def) }
+      else defTarget(ch, def)
+    }
+  } else if (node.name == "SubscriptExpression" && node.firstChild) {
+    defTarget(node.firstChild, def)
   }
 }
 
 const gatherCompletions: {
-  [node: string]: (node: SyntaxNodeRef, def: (node: SyntaxNodeRef, type: string) => void) => void | boolean
+  [node: string]: (node: SyntaxNodeRef, def: Def) => void | boolean
 } = {
-  FunctionDefinition: defID("function"),
-  ClassDefinition: defID("class"),
+  // Named functions, classes, and constants are global, and
+  // completed by namespaceCompletionSource
+  FunctionDefinition: skip,
+  ClassDeclaration: skip,
+  InterfaceDeclaration: skip,
+  TraitDeclaration: skip,
+  EnumDeclaration: skip,
+  ConstDeclaration: skip,
+  Parameter: defVar,
+  VariadicParameter: defVar,
+  PropertyParameter: defVar,
+  CatchDeclarator: defVar,
+  UseList: defVars,
+  GlobalDeclaration: defVars,
+  FunctionStaticDeclaration: defVars,
+  AssignmentExpression(node, def) {
+    let target = node.node.firstChild
+    if (target) defTarget(target, def)
+  },
+  ForeachStatement(node, def) {
+    let as = node.node.getChild("ForSpec")?.getChild("as"), bound = as?.nextSibling
+    if (!bound) return
+    if (bound.name == "Pair") {
+      if (bound.firstChild) defTarget(bound.firstChild, def)
+      if (bound.lastChild) defTarget(bound.lastChild, def)
+    } else {
+      defTarget(bound, def)
+    }
+  },
   __proto__: null as any
 }
 
@@ -32,20 +86,25 @@ function getScope(doc: Text, node: SyntaxNode) {
   let cached = cache.get(node)
   if (cached) return cached
 
-  let completions: Completion[] = [], top = true
+  let completions: Completion[] = [], seen: Set<string> = new Set, top = true
+  function add(c: Completion) {
+    if (!seen.has(c.label)) {
+      seen.add(c.label)
+      completions.push(c)
+    }
+  }
   function def(node: SyntaxNodeRef, type: string) {
-    let name = doc.sliceString(node.from, node.to)
-    completions.push({label: name, type})
+    add({label: doc.sliceString(node.from, node.to), type})
   }
   node.cursor(IterMode.IncludeAnonymous).iterate(node => {
     if (top) {
       top = false
     } else if (node.name) {
       let gather = gatherCompletions[node.name]
-      if (gather && gather(node, def) || !top && ScopeNodes.has(node.name)) return false
+      if (gather && gather(node, def) || ScopeNodes.has(node.name)) return false
     } else if (node.to - node.from > 8192) {
       // Allow caching for bigger internal nodes
-      for (let c of getScope(doc, node.node)) completions.push(c)
+      for (let c of getScope(doc, node.node)) add(c)
       return false
     }
   })
@@ -53,32 +112,398 @@ function getScope(doc: Text, node: SyntaxNode) {
   return completions
 }
 
-const Identifier = /^[\w\xa1-\uffff][\w\d\xa1-\uffff]*$/
+const thisCompletion: Completion = {label: "$this", type: "variable"}
+
+const Identifier = /^[\w\xa1-\uffff][\w\d\xa1-\uffff]*$/, Variable = /^\$?[\w\xa1-\uffff]*$/
+
+const dontComplete = ["String", "FormatString", "LineComment", "BlockComment", "PropertyName"]
+
+function inComment(node: SyntaxNode) {
+  for (let cur: SyntaxNode | null = node; cur; cur = cur.parent)
+    if (cur.name == "LineComment" || cur.name == "BlockComment") return true
+  return false
+}
+
+// Check whether a node is part of the text of a string, outside of
+// `{$...}` interpolations.
+function inStringText(node: SyntaxNode) {
+  for (let cur: SyntaxNode | null = node; cur; cur = cur.parent) {
+    if (cur.name == "Interpolation") return false
+    if (cur.name == "String" || cur.name == "HeredocString") return true
+  }
+  return false
+}
 
-const dontComplete = ["String", "FormatString", "Comment", "PropertyName"]
+// Find the member access (`->`, `?->`, or `::`) whose member name
+// is being completed at the given node.
+function memberAccess(inner: SyntaxNode) {
+  let parent = inner.parent, access = inner
+  if (!parent) return null
+  if (parent.name == "ClassMemberName") {
+    access = parent
+    parent = parent.parent
+    if (!parent) return null
+  }
+  if (parent.name != "MemberExpression" && parent.name != "ScopedExpression") return null
+  if (access.name != "->" && access.name != "?->" && access.name != "::") {
+    let before = access.prevSibling
+    if (!before || before.name != "->" && before.name != "?->" && before.name != "::") return null
+  }
+  return {
+    object: parent.firstChild!,
+    isStatic: parent.name == "ScopedExpression",
+    from: /^(->|\?->|::)$/.test(inner.name) ? inner.to : inner.from
+  }
+}
 
 /// Completion source that looks up locally defined names in
-/// PHP code.
+/// PHP code. Following PHP's scoping rules, variables from
+/// surrounding function scopes are only visible inside arrow
+/// functions, and `$this` is offered inside non-static methods.
 export function localCompletionSource(context: CompletionContext): CompletionResult | null {
   let inner = syntaxTree(context.state).resolveInner(context.pos, -1)
-  if (dontComplete.indexOf(inner.name) > -1) return null
-  let isWord = inner.name == "VariableName" ||
-    inner.to - inner.from < 20 && Identifier.test(context.state.sliceDoc(inner.from, inner.to))
+  if (dontComplete.indexOf(inner.name) > -1 || inComment(inner) || memberAccess(inner)) return null
+  let isVar = inner.name == "VariableName" || inner.name == "$"
+  let isWord = isVar || inner.to - inner.from < 20 && Identifier.test(context.state.sliceDoc(inner.from, inner.to))
   if (!isWord && !context.explicit) return null
-  let options: Completion[] = []
-  for (let pos: SyntaxNode | null = inner; pos; pos = pos.parent) {
-    if (ScopeNodes.has(pos.name)) options = options.concat(getScope(context.state.doc, pos))
+  return {
+    options: visibleNames(context.state.doc, inner).filter(option => !isWord || (option.type == "variable") == isVar),
+    from: isWord ? inner.from : context.pos,
+    validFor: isVar ? Variable : Identifier
   }
+}
+
+// Collect the local names visible at the given node.
+function visibleNames(doc: Text, inner: SyntaxNode) {
+  let options: Completion[] = [], seen: Set<string> = new Set
+  function add(option: Completion) {
+    if (seen.has(option.label)) return
+    seen.add(option.label)
+    options.push(option)
+  }
+  for (let pos: SyntaxNode | null = inner, isolated = false, hasThis = true; pos; pos = pos.parent) {
+    if (!ScopeNodes.has(pos.name)) continue
+    for (let option of getScope(doc, pos)) {
+      if (!isolated || option.type != "variable") add(option)
+    }
+    if (pos.name == "MethodDeclaration" && hasThis && !pos.getChild("static")) add(thisCompletion)
+    if (pos.name == "FunctionDefinition" || pos.getChild("static")) hasThis = false
+    if (IsolatedScopes.has(pos.name)) isolated = true
+  }
+  return options
+}
+
+const memberTypes: {[kind in MemberInfo["kind"]]: string} = {
+  method: "method",
+  property: "property",
+  constant: "constant",
+  case: "enum"
+}
+
+/// Completion source that completes the methods, properties,
+/// constants, and enum cases of an object or class after `->`,
+/// `?->`, or `::`. Classes defined in the document, along with their
+/// parent classes, interfaces, and traits, and a number of PHP's
+/// built-in classes, are understood.
+export function memberCompletionSource(context: CompletionContext): CompletionResult | null {
+  let inner = syntaxTree(context.state).resolveInner(context.pos, -1)
+  let access = memberAccess(inner)
+  if (!access) return null
+  let className = expressionClass(context.state, access.object), cls = className && findClass(context.state, className)
+  if (!cls) return null
+  // Non-static methods can be called through `self::`, `static::`, and `parent::`
+  let selfAccess = access.isStatic && /^(self|static|parent)$/i.test(context.state.sliceDoc(access.object.from, access.object.to))
+  let options = memberOptions(context.state, cls, ownClassName(context.state, inner), access.isStatic, selfAccess)
+  if (access.isStatic) options.push({label: "class", type: "keyword"})
+  // Simple string interpolation can't call methods
+  else if (inStringText(inner)) options = options.filter(o => o.type == "property")
   return {
     options,
-    from: isWord ? inner.from : context.pos,
-    validFor: Identifier
+    from: access.from,
+    validFor: /^\$?[\w\xa1-\uffff]*$/
   }
 }
 
+// Create completions for the members of a class that can be
+// accessed from the class named `scope`.
+function memberOptions(state: EditorState, cls: ClassInfo, scope: string | null, isStatic: boolean, selfAccess = false) {
+  let options: Completion[] = []
+  for (let member of classMembers(state, cls)) {
+    if (!isVisible(state, member, scope)) continue
+    if (isStatic ? !member.static && !(selfAccess && member.kind == "method")
+        : member.static || member.kind == "constant" || member.kind == "case") continue
+    // Constructors and destructors are only called explicitly through `parent::`
+    if (!isStatic && member.kind == "method" && /^__(construct|destruct)$/i.test(member.name)) continue
+    let label = isStatic && member.kind == "property" ? "$" + member.name : member.name
+    options.push({label, type: memberTypes[member.kind], detail: member.detail})
+  }
+  return options
+}
+
+const superglobals = new Set(["$GLOBALS", "$_SERVER", "$_GET", "$_POST", "$_FILES", "$_COOKIE", "$_SESSION", "$_REQUEST", "$_ENV"])
+
+const serverKeys: readonly Completion[] = [
+  "REQUEST_METHOD", "REQUEST_URI", "QUERY_STRING", "REQUEST_TIME", "REQUEST_TIME_FLOAT", "SCRIPT_NAME",
+  "SCRIPT_FILENAME", "PHP_SELF", "PATH_INFO", "DOCUMENT_ROOT", "HTTPS", "HTTP_HOST", "HTTP_USER_AGENT",
+  "HTTP_REFERER", "HTTP_ACCEPT", "HTTP_ACCEPT_LANGUAGE", "HTTP_ACCEPT_ENCODING", "HTTP_COOKIE", "HTTP_X_FORWARDED_FOR",
+  "HTTP_X_REQUESTED_WITH", "CONTENT_TYPE", "CONTENT_LENGTH", "REMOTE_ADDR", "REMOTE_PORT", "SERVER_NAME",
+  "SERVER_ADDR", "SERVER_PORT", "SERVER_PROTOCOL", "SERVER_SOFTWARE", "PHP_AUTH_USER", "PHP_AUTH_PW", "AUTH_TYPE",
+  "argv", "argc"
+].map(label => ({label, type: "property", detail: "$_SERVER"}))
+
+// The string literal used as a key, if `node` is one.
+function literalKey(doc: Text, node: SyntaxNode | null) {
+  if (!node || node.name != "String" || node.firstChild) return null
+  let text = doc.sliceString(node.from, node.to), quote = text[0]
+  return (quote == "'" || quote == '"') && text.length > 1 && text[text.length - 1] == quote ? text.slice(1, -1) : null
+}
+
+// Collect the string keys that literal arrays assigned to the
+// variable `name`, and assignments to its elements, use in the given
+// scope. Superglobals are looked up in the entire document.
+function arrayKeys(state: EditorState, name: string, scope: SyntaxNode | null): Completion[] {
+  let doc = state.doc, keys: Completion[] = [], seen = new Set<string>()
+  let global = superglobals.has(name)
+  if (global) scope = syntaxTree(state).topNode
+  function add(key: string | null) {
+    if (key == null || seen.has(key)) return
+    seen.add(key)
+    keys.push({label: key, type: "property"})
+  }
+  function isVar(node: SyntaxNode | null) {
+    return node && node.name == "VariableName" && doc.sliceString(node.from, node.to) == name
+  }
+  if (scope) scope.cursor().iterate(node => {
+    if (node.from > scope!.from && ScopeNodes.has(node.name) && !global) return false
+    if (node.name != "AssignmentExpression") return
+    let target = node.node.firstChild, value = node.node.lastChild
+    if (isVar(target) && value && value.name == "ArrayExpression") {
+      for (let pair of (value.getChild("ValueList") || value).getChildren("Pair")) add(literalKey(doc, pair.firstChild))
+    } else if (target && target.name == "SubscriptExpression" && isVar(target.firstChild)) {
+      add(literalKey(doc, target.getChild("[")?.nextSibling || null))
+    }
+  })
+  return name == "$_SERVER" ? keys.concat(serverKeys.filter(k => !seen.has(k.label))) : keys
+}
+
+function interpolates(doc: Text, node: SyntaxNode) {
+  let start = doc.sliceString(node.from, node.from + 10)
+  return node.name == "String" ? /^[bB]?"/.test(start) : !/^<<<\s*'/.test(start)
+}
+
+const VarName = "[\\w\\xa1-\\uffff]+"
+
+const KeyBefore = new RegExp(`(\\\\?)(\\{?)\\$(${VarName})\\[(['"]?)([^'"\\[\\]]*)$`),
+  MemberBefore = new RegExp(`(\\\\?)(\\{?)\\$(${VarName})((?:\\??->${VarName})*)\\??->([\\w\\xa1-\\uffff]*)$`),
+  VarBefore = new RegExp(`(\\\\?)\\$[\\w\\xa1-\\uffff]*$`)
+
+/// Completion source for strings. In double-quoted strings and
+/// heredocs, completes variables after `$`, and properties (or, in
+/// `{$...}` syntax, also methods) after `->`. Inside array subscripts
+/// (`$row['` or `"$row[`), completes the string keys of the array,
+/// as seen in the literal arrays assigned to the variable and in
+/// assignments to its elements, and common `$_SERVER` keys.
+export function stringCompletionSource(context: CompletionContext): CompletionResult | null {
+  let {state, pos} = context, inner = syntaxTree(state).resolveInner(pos, -1)
+  // Variables and members parsed in interpolations are handled by
+  // localCompletionSource and memberCompletionSource
+  if (inner.name == "VariableName" || memberAccess(inner)) return null
+  let str: SyntaxNode | null = inner
+  while (str && str.name != "String" && str.name != "HeredocString") str = str.parent
+  if (!str) return null
+  let line = state.doc.lineAt(pos)
+  // A quoted array key, in code or in a `{$...}` interpolation
+  let subscript = str.parent
+  if (subscript && subscript.name == "SubscriptExpression" && str.prevSibling?.name == "[" &&
+      subscript.firstChild!.name == "VariableName" && /^['"]/.test(state.sliceDoc(str.from, str.from + 1)) &&
+      str.from >= line.from) {
+    let object = subscript.firstChild!
+    let keys = arrayKeys(state, state.sliceDoc(object.from, object.to), variableScope(state.doc, object))
+    return keys.length ? {options: keys, from: str.from + 1, validFor: /^[^'"\[\]\\]*$/} : null
+  }
+  if (!interpolates(state.doc, str)) return null
+  let text = state.sliceDoc(Math.max(str.from, line.from), pos), m
+  if (m = KeyBefore.exec(text)) {
+    // Keys are quoted in `{$...}` syntax, and unquoted in simple interpolation
+    if (m[1] || !m[2] != !m[4]) return null
+    let keys = arrayKeys(state, "$" + m[3], enclosingScope(str))
+    return keys.length ? {options: keys, from: pos - m[5].length, validFor: /^[^'"\[\]\\]*$/} : null
+  }
+  if (m = MemberBefore.exec(text)) {
+    if (m[1] || !m[2] && m[4]) return null
+    let cls = variableClass(state, "$" + m[3], str)
+    for (let prop of m[4] ? m[4].split(/\??->/).slice(1) : []) cls = memberType(state, cls, prop, "property")
+    let info = cls && findClass(state, cls)
+    if (!info) return null
+    let options = memberOptions(state, info, ownClassName(state, str), false)
+    if (!m[2]) options = options.filter(o => o.type == "property")
+    return {options, from: pos - m[5].length, validFor: Identifier}
+  }
+  if (m = VarBefore.exec(text)) {
+    if (m[1]) return null
+    return {
+      options: visibleNames(state.doc, str).filter(o => o.type == "variable"),
+      from: pos - m[0].length,
+      validFor: Variable
+    }
+  }
+  return null
+}
+
+// A class, function, or constant that can be referred to by name.
+type NamedSymbol = {name: string, kind: NameKind, type: string, detail?: string}
+
+const symbolCache = new WeakMap<Tree | ProjectSymbols, readonly NamedSymbol[]>()
+
+function classSymbols(classes: Iterable<ClassInfo>, symbols: NamedSymbol[]) {
+  for (let cls of classes) if (!/@anonymous/.test(cls.name)) symbols.push({name: cls.name, kind: "class", type: classType(cls)})
+}
+
+function functionSymbols(functions: Iterable<Signature>, symbols: NamedSymbol[]) {
+  for (let f of functions) symbols.push({name: f.name, kind: "function", type: "function", detail: functionDetail(f)})
+}
+
+function constantSymbols(constants: Iterable<ConstantInfo>, symbols: NamedSymbol[]) {
+  for (let c of constants) symbols.push({name: c.name, kind: "constant", type: "constant", detail: c.value})
+}
+
+function cachedSymbols(key: Tree | ProjectSymbols, get: (symbols: NamedSymbol[]) => void) {
+  let found = symbolCache.get(key)
+  if (!found) {
+    let symbols: NamedSymbol[] = []
+    get(symbols)
+    symbolCache.set(key, found = symbols)
+  }
+  return found
+}
+
+let builtinSymbols: readonly NamedSymbol[] | null = null
+
+// Collect the classes, functions, and constants declared in the
+// document and the project index, along with PHP's built-in classes.
+function namedSymbols(state: EditorState) {
+  let local = cachedSymbols(syntaxTree(state), symbols => {
+    classSymbols(documentClasses(state).values(), symbols)
+    functionSymbols(documentFunctions(state).values(), symbols)
+    constantSymbols(documentConstants(state), symbols)
+  })
+  let project = state.facet(projectIndex), external = cachedSymbols(project, symbols => {
+    classSymbols(project.classes.values(), symbols)
+    functionSymbols(project.functions.values(), symbols)
+    constantSymbols(project.constants.values(), symbols)
+  })
+  if (!builtinSymbols) {
+    let symbols: NamedSymbol[] = []
+    classSymbols(builtinClassMap().values(), symbols)
+    builtinSymbols = symbols
+  }
+  let result: NamedSymbol[] = [], seen = new Set<string>()
+  for (let list of [local, external, builtinSymbols]) for (let sym of list) {
+    let key = sym.kind + ":" + (sym.kind == "constant" ? sym.name : sym.name.toLowerCase())
+    if (!seen.has(key)) {
+      seen.add(key)
+      result.push(sym)
+    }
+  }
+  return result
+}
+
+function classType(cls: ClassInfo) {
+  return cls.kind == "trait" ? "class" : cls.kind
+}
+
+const QualifiedWord = /\\?(?:[\w\xa1-\uffff]+\\)*[\w\xa1-\uffff]*/
+
+// Create a completion that, when picked, inserts `local` and adds a
+// `use` statement that imports the symbol.
+function importCompletion(symbol: NamedSymbol, local: string, namespace: string, scope: NamespaceScope): Completion {
+  return {
+    label: local,
+    type: symbol.type,
+    detail: namespace,
+    boost: -1,
+    apply: (view, completion, from, to) => {
+      let {state} = view
+      view.dispatch(state.update(insertCompletionText(state, local, from, to), {
+        changes: importChange(state.doc, syntaxTree(state), scope, symbol.kind, symbol.name),
+        annotations: pickedCompletion.of(completion)
+      }))
+    }
+  }
+}
+
+/// Completion source for class, function, and constant names that
+/// understands namespaces and `use` imports. Names from the current
+/// namespace and imported names are completed directly. Picking a
+/// class, function, or constant from another namespace adds a `use`
+/// statement for it (or, when that would conflict with an existing
+/// name, inserts its fully qualified name). In `use` statements, and
+/// after a namespace prefix, fully qualified names are completed.
+export function namespaceCompletionSource(context: CompletionContext): CompletionResult | null {
+  let {state} = context, tree = syntaxTree(state), inner = tree.resolveInner(context.pos, -1)
+  if (dontComplete.indexOf(inner.name) > -1 || inComment(inner) || inStringText(inner) || memberAccess(inner) ||
+      inner.name == "VariableName" || inner.name == "$" || inner.name == "NamespaceDefinition") return null
+  let word = context.matchBefore(QualifiedWord)
+  if (!word || word.from == word.to && !context.explicit || /[$\w]/.test(state.sliceDoc(word.from - 1, word.from)))
+    return null
+  let symbols = namedSymbols(state), options: Completion[] = []
+  let useDecl: SyntaxNode | null = inner
+  while (useDecl && useDecl.name != "NamespaceUseDeclaration") useDecl = useDecl.parent
+  if (useDecl) {
+    let kind = useDecl.getChild("function") ? "function" : useDecl.getChild("const") ? "constant" : "class"
+    let start = word.text[0] == "\\" ? word.from + 1 : word.from
+    for (let sym of symbols) if (sym.kind == kind) options.push({label: sym.name, type: sym.type, detail: sym.detail})
+    return {options, from: start, validFor: /^(?:[\w\xa1-\uffff]+\\)*[\w\xa1-\uffff]*$/}
+  }
+  let scope = namespaceScope(state.doc, tree, context.pos), sep = word.text.lastIndexOf("\\")
+  if (sep > -1) {
+    let prefix = sep ? resolveName(scope, word.text.slice(0, sep), "class").toLowerCase() : "", seen = new Set<string>()
+    for (let sym of symbols) {
+      let {namespace, local} = splitName(sym.name), lower = namespace.toLowerCase()
+      if (lower == prefix) {
+        options.push({label: local, type: sym.type, detail: sym.detail})
+      } else if (lower.startsWith(prefix ? prefix + "\\" : "")) {
+        let sub = namespace.slice(prefix ? prefix.length + 1 : 0).split("\\")[0]
+        if (!seen.has(sub)) {
+          seen.add(sub)
+          options.push({label: sub, type: "namespace"})
+        }
+      }
+    }
+    for (let ns of state.facet(projectIndex).namespaces) {
+      let lower = ns.toLowerCase()
+      if (prefix ? !lower.startsWith(prefix + "\\") : false) continue
+      let sub = ns.slice(prefix ? prefix.length + 1 : 0).split("\\")[0]
+      if (!seen.has(sub)) {
+        seen.add(sub)
+        options.push({label: sub, type: "namespace"})
+      }
+    }
+    return {options, from: word.from + sep + 1, validFor: Identifier}
+  }
+  let current = scope.name.toLowerCase()
+  for (let imp of scope.imports) {
+    let sym = symbols.find(s => s.kind == imp.kind && s.name.toLowerCase() == imp.name.toLowerCase())
+    options.push({label: imp.alias, type: sym ? sym.type : imp.kind, detail: imp.name})
+  }
+  for (let sym of symbols) {
+    if (scope.imports.some(i => i.kind == sym.kind && i.name.toLowerCase() == sym.name.toLowerCase())) continue
+    let {namespace, local} = splitName(sym.name)
+    if (namespace.toLowerCase() == current || !namespace && hasGlobalFallback(local, sym.kind)) {
+      options.push({label: local, type: sym.type, detail: sym.detail})
+    } else if (findImport(scope, local, sym.kind) ||
+               symbols.some(s => s.kind == sym.kind && s != sym && s.name.toLowerCase() == (current ? current + "\\" : "") + local.toLowerCase())) {
+      options.push({label: local, type: sym.type, detail: namespace, boost: -1, apply: "\\" + sym.name})
+    } else {
+      options.push(importCompletion(sym, local, namespace, scope))
+    }
+  }
+  return {options, from: word.from, validFor: Identifier}
+}
+
 const globals: readonly Completion[] = [
   "$GLOBALS", "$_SERVER", "$_GET", "$_POST", "$_FILES", "$_COOKIE", "$_SESSION", "$_REQUEST", "$_ENV"
-].map(n => ({label: n, type: "superglobals"})).concat([
+].map((n): Completion => ({label: n, type: "superglobals", info: builtinConstant(n)?.description})).concat([
   "__LINE__", "__FILE__", "__DIR__", "__FUNCTION__", "__CLASS__", "__TRAIT__", "__METHOD__", 
   "__NAMESPACE__", "ClassName::class", "DIRECTORY_SEPARATOR", "PATH_SEPARATOR", "SCANDIR_SORT_ASCENDING", 
   "SCANDIR_SORT_DESCENDING", "SCANDIR_SORT_NONE", "E_ERROR", "E_WARNING", "E_PARSE", "E_NOTICE", "E_CORE_ERROR", 
@@ -88,234 +513,26 @@ const globals: readonly Completion[] = [
   "SORT_FLAG_CASE", "ARRAY_FILTER_USE_KEY", "ARRAY_FILTER_USE_BOTH", "COUNT_NORMAL", "COUNT_RECURSIVE", "EXTR_OVERWRITE", 
   "EXTR_SKIP", "EXTR_PREFIX_SAME", "EXTR_PREFIX_ALL", "EXTR_PREFIX_INVALID", "EXTR_PREFIX_IF_EXISTS", "EXTR_IF_EXISTS", 
   "EXTR_REFS"
-].map(n => ({label: n, type: "constant"}))).concat([
+].map(n => ({label: n, type: "constant", info: builtinConstant(n)?.description}))).concat([
   "abstract", "public", "private", "protected", "static", "extends", "implements"
 ].map(n => ({label: n, type: "scope"}))).concat([
   "NULL", "bool", "array", "string", "int", "float", "mixed", "void", "never", "const", "var", "class", "function",
   "trait", "interface"
 ].map(n => ({label: n, type: "type"}))).concat([
-  "Directory", "stdClass", "Exception", "ErrorException", "php_user_filter", "Closure", "Generator", "ArithmeticError", 
-  "AssertionError", "DivisionByZeroError", "Error", "Throwable", "ParseError", "TypeError", "self", "static", "parent",
-  "ZipArchive"
+  "self", "static", "parent"
 ].map(n => ({label: n, type: "class"}))).concat([
-  // Error Handling and Logging
-  "debug_backtrace", "debug_print_backtrace", "error_clear_last", "error_get_last", "error_log", "error_reporting", 
-  "restore_error_handler", "restore_exception_handler", "set_error_handler", "set_exception_handler", "trigger_error", 
-  "user_error", 
-  // GNU Readline
-  "readline_add_history", "readline_callback_handler_install", "readline_callback_handler_remove", "readline_callback_read_char", 
-  "readline_clear_history", "readline_completion_function", "readline_info", "readline_list_history", "readline_on_new_line",
-  "readline_read_history", "readline_redisplay", "readline_write_history", "readline", 
-  // Bzip2
-  "bzclose", "bzcompress", "bzdecompress", "bzerrno", "bzerror", "bzerrstr", "bzflush", "bzopen", "bzread", "bzwrite", 
-  // Zip
-  //TODO autocomplete function for certain class
-  // "addEmptyDir", "addFile", "addFromString", "addGlob", "addPattern", "clearError", "close", "count", "deleteIndex", "deleteName", 
-  // "extractTo", "getArchiveComment", "getArchiveFlag", "getCommentIndex", "getCommentName", "getExternalAttributesIndex", 
-  // "getExternalAttributesName", "getNameIndex", "getStatusString", "getStream", "getStreamIndex", "getFromIndex", "getFromName", 
-  // "getStreamName", "isCompressionMethodSupported", "isEncryptionMethodSupported", "locateName", "open", "registerCancelCallback", 
-  // "registerProgressCallback", "renameIndex", "renameName", "replaceFile", "setArchiveComment", "setArchiveFlag", "setCommentIndex", 
-  // "setCommentName", "setCompressionIndex", "setCompressionName", "setEncryptionIndex", "setEncryptionName", "setExternalAttributesIndex", 
-  // "setExternalAttributesName", "setMtimeIndex", "setMtimeName", "setPassword", "statIndex", "statName", "unchangeAll", "unchangeArchive", 
-  // "unchangeIndex", "unchangeName", 
-  "zip_close", "zip_entry_close", "zip_entry_compressedsize", "zip_entry_compressionmethod", 
-  "zip_entry_filesize", "zip_entry_name", "zip_entry_open", "zip_entry_read", "zip_open", "zip_read", 
-  // Zlib Compression
-  "deflate_add", "deflate_init", "gzclose", "gzcompress", "gzdecode", "gzdeflate", "gzencode", "gzeof", "gzfile", "gzgetc", 
-  "gzgets", "gzgetss", "gzinflate", "gzopen", "gzpassthru", "gzputs", "gzread", "gzrewind", "gzseek", "gztell", "gzuncompress", 
-  "gzwrite", "inflate_add", "inflate_get_read_len", "inflate_get_status", "inflate_init", "readgzfile", "zlib_decode", "zlib_encode", 
-  "zlib_get_coding_type", 
-  // Calendar
-  "cal_days_in_month", "cal_from_jd", "cal_info", "cal_to_jd", "easter_date", "easter_days", "frenchtojd", "gregoriantojd", "jddayofweek", 
-  "jdmonthname", "jdtofrench", "jdtogregorian", "jdtojewish", "jdtojulian", "jdtounix", "jewishtojd", "juliantojd", "unixtojd",
-  // Date and Time
-  "checkdate", "date_add", "date_create_from_format", "date_create_immutable_from_format", "date_create_immutable", "date_create", 
-  "date_date_set", "date_default_timezone_get", "date_default_timezone_set", "date_diff", "date_format", "date_get_last_errors", 
-  "date_interval_create_from_date_string", "date_interval_format", "date_isodate_set", "date_modify", "date_offset_get", "date_parse_from_format", 
-  "date_parse", "date_sub", "date_sun_info", "date_sunrise", "date_sunset", "date_time_set", "date_timestamp_get", "date_timestamp_set", 
-  "date_timezone_get", "date_timezone_set", "date", "getdate", "gettimeofday", "gmdate", "gmmktime", "gmstrftime", "idate", "localtime", 
-  "microtime", "mktime", "strftime", "strptime", "strtotime", "time", "timezone_abbreviations_list", "timezone_identifiers_list", 
-  "timezone_location_get", "timezone_name_from_abbr", "timezone_name_get", "timezone_offset_get", "timezone_open", "timezone_transitions_get", 
-  "timezone_version_get", 
-  // Directories
-  "chdir", "chroot", "closedir", "dir", "getcwd", "opendir", "readdir", "rewinddir", "scandir", 
-  // File Information
-  "finfo_buffer", "finfo_close", "finfo_file", "finfo_open", "finfo_set_flags", "mime_content_type", 
-  // Filesystem
-  "basename", "chgrp", "chmod", "chown", "clearstatcache", "copy", "delete", "dirname", "disk_free_space", "disk_total_space", "diskfreespace", 
-  "fclose", "fdatasync", "feof", "fflush", "fgetc", "fgetcsv", "fgets", "fgetss", "file_exists", "file_get_contents", "file_put_contents", 
-  "file", "fileatime", "filectime", "filegroup", "fileinode", "filemtime", "fileowner", "fileperms", "filesize", "filetype", "flock", 
-  "fnmatch", "fopen", "fpassthru", "fputcsv", "fputs", "fread", "fscanf", "fseek", "fstat", "fsync", "ftell", "ftruncate", "fwrite", "glob", 
-  "is_dir", "is_executable", "is_file", "is_link", "is_readable", "is_uploaded_file", "is_writable", "is_writeable", "lchgrp", "lchown", 
-  "link", "linkinfo", "lstat", "mkdir", "move_uploaded_file", "parse_ini_file", "parse_ini_string", "pathinfo", "pclose", "popen", "readfile", 
-  "readlink", "realpath_cache_get", "realpath_cache_size", "realpath", "rename", "rewind", "rmdir", "set_file_buffer", "stat", "symlink", 
-  "tempnam", "tmpfile", "touch", "umask", "unlink", 
-  // Image Processing and GD
-  "gd_info", "getimagesize", "getimagesizefromstring", "image_type_to_extension", "image_type_to_mime_type", "image2wbmp", "imageaffine", 
-  "imageaffinematrixconcat", "imageaffinematrixget", "imagealphablending", "imageantialias", "imagearc", "imageavif", "imagebmp", 
-  "imagechar", "imagecharup", "imagecolorallocate", "imagecolorallocatealpha", "imagecolorat", "imagecolorclosest", "imagecolorclosestalpha", 
-  "imagecolorclosesthwb", "imagecolordeallocate", "imagecolorexact", "imagecolorexactalpha", "imagecolormatch", "imagecolorresolve", 
-  "imagecolorresolvealpha", "imagecolorset", "imagecolorsforindex", "imagecolorstotal", "imagecolortransparent", "imageconvolution", 
-  "imagecopy", "imagecopymerge", "imagecopymergegray", "imagecopyresampled", "imagecopyresized", "imagecreate", "imagecreatefromavif",
-  "imagecreatefrombmp", "imagecreatefromgd2", "imagecreatefromgd2part", "imagecreatefromgd", "imagecreatefromgif", "imagecreatefromjpeg", 
-  "imagecreatefrompng", "imagecreatefromstring", "imagecreatefromtga", "imagecreatefromwbmp", "imagecreatefromwebp", "imagecreatefromxbm", 
-  "imagecreatefromxpm", "imagecreatetruecolor", "imagecrop", "imagecropauto", "imagedashedline", "imagedestroy", "imageellipse", "imagefill", 
-  "imagefilledarc", "imagefilledellipse", "imagefilledpolygon", "imagefilledrectangle", "imagefilltoborder", "imagefilter", "imageflip", 
-  "imagefontheight", "imagefontwidth", "imageftbbox", "imagefttext", "imagegammacorrect", "imagegd2", "imagegd", "imagegetclip", 
-  "imagegetinterpolation", "imagegif", "imagegrabscreen", "imagegrabwindow", "imageinterlace", "imageistruecolor", "imagejpeg", "imagelayereffect", 
-  "imageline", "imageloadfont", "imageopenpolygon", "imagepalettecopy", "imagepalettetotruecolor", "imagepng", "imagepolygon", "imagerectangle", 
-  "imageresolution", "imagerotate", "imagesavealpha", "imagescale", "imagesetbrush", "imagesetclip", "imagesetinterpolation", "imagesetpixel", 
-  "imagesetstyle", "imagesetthickness", "imagesettile", "imagestring", "imagestringup", "imagesx", "imagesy", "imagetruecolortopalette", 
-  "imagettfbbox", "imagettftext", "imagetypes", "imagewbmp", "imagewebp", "imagexbm", "iptcembed", "iptcparse", "jpeg2wbmp", "png2wbmp", 
-  // Exchangeable image information
-  "exif_imagetype", "exif_read_data", "exif_tagname", "exif_thumbnail", "read_exif_data",
-  // BCMath Arbitrary Precision Mathematics
-  "bcadd", "bccomp", "bcdiv", "bcmod", "bcmul", "bcpow", "bcpowmod", "bcscale", "bcsqrt", "bcsub", 
-  // GNU Multiple Precision
-  "gmp_abs", "gmp_add", "gmp_and", "gmp_binomial", "gmp_clrbit", "gmp_cmp", "gmp_com", "gmp_div_q", "gmp_div_qr", "gmp_div_r", "gmp_div",
-  "gmp_divexact", "gmp_export", "gmp_fact", "gmp_gcd", "gmp_gcdext", "gmp_hamdist", "gmp_import", "gmp_init", "gmp_intval", "gmp_invert", 
-  "gmp_jacobi", "gmp_kronecker", "gmp_lcm", "gmp_legendre", "gmp_mod", "gmp_mul", "gmp_neg", "gmp_nextprime", "gmp_or", "gmp_perfect_power", 
-  "gmp_perfect_square", "gmp_popcount", "gmp_pow", "gmp_powm", "gmp_prob_prime", "gmp_random_bits", "gmp_random_range", "gmp_random_seed", 
-  "gmp_random", "gmp_root", "gmp_rootrem", "gmp_scan0", "gmp_scan1", "gmp_setbit", "gmp_sign", "gmp_sqrt", "gmp_sqrtrem", "gmp_strval", 
-  "gmp_sub", "gmp_testbit", "gmp_xor", 
-  // Process Control
-  "pcntl_alarm", "pcntl_async_signals", "pcntl_errno", "pcntl_exec", "pcntl_fork", "pcntl_get_last_error", "pcntl_getpriority", "pcntl_rfork", 
-  "pcntl_setpriority", "pcntl_signal_dispatch", "pcntl_signal_get_handler", "pcntl_signal", "pcntl_sigprocmask", "pcntl_sigtimedwait", 
-  "pcntl_sigwaitinfo", "pcntl_strerror", "pcntl_unshare", "pcntl_wait", "pcntl_waitpid", "pcntl_wexitstatus", "pcntl_wifexited", "pcntl_wifsignaled", 
-  "pcntl_wifstopped", "pcntl_wstopsig", "pcntl_wtermsig", 
-  // JavaScript Object Notation
-  "json_decode", "json_encode", "json_last_error_msg", "json_last_error", 
-  // Randomness
-  "getrandmax", "lcg_value", "mt_getrandmax", "mt_rand", "mt_srand", "rand", "random_bytes", "random_int", "srand", 
-  // URLs
-  "base64_decode", "base64_encode", "get_headers", "get_meta_tags", "http_build_query", "parse_url", "rawurldecode", "rawurlencode", "urldecode", 
-  "urlencode", 
-  // Client URL Library
-  "curl_close", "curl_copy_handle", "curl_errno", "curl_error", "curl_escape", "curl_exec", "curl_getinfo", "curl_init", "curl_multi_add_handle", 
-  "curl_multi_close", "curl_multi_errno", "curl_multi_exec", "curl_multi_getcontent", "curl_multi_info_read", "curl_multi_init", "curl_multi_remove_handle", 
-  "curl_multi_select", "curl_multi_setopt", "curl_multi_strerror", "curl_pause", "curl_reset", "curl_setopt_array", "curl_setopt", "curl_share_close", 
-  "curl_share_errno", "curl_share_init", "curl_share_setopt", "curl_share_strerror", "curl_strerror", "curl_unescape", "curl_upkeep", "curl_version", 
-  // Sockets
-  "socket_accept", "socket_addrinfo_bind", "socket_addrinfo_connect", "socket_addrinfo_explain", "socket_addrinfo_lookup", "socket_bind", 
-  "socket_clear_error", "socket_close", "socket_cmsg_space", "socket_connect", "socket_create_listen", "socket_create_pair", "socket_create", 
-  "socket_export_stream", "socket_get_option", "socket_getopt", "socket_getpeername", "socket_getsockname", "socket_import_stream", "socket_last_error", 
-  "socket_listen", "socket_read", "socket_recv", "socket_recvfrom", "socket_recvmsg", "socket_select", "socket_send", "socket_sendmsg", "socket_sendto",
-  "socket_set_block", "socket_set_nonblock", "socket_set_option", "socket_setopt", "socket_shutdown", "socket_strerror", "socket_write", 
-  "socket_wsaprotocol_info_export", "socket_wsaprotocol_info_import", "socket_wsaprotocol_info_release", 
-  // Session Handling
-  "session_abort", "session_cache_expire", "session_cache_limiter", "session_commit", "session_create_id", "session_decode", "session_destroy", 
-  "session_encode", "session_gc", "session_get_cookie_params", "session_id", "session_module_name", "session_name", "session_regenerate_id", 
-  "session_register_shutdown", "session_reset", "session_save_path", "session_set_cookie_params", "session_start", "session_set_save_handler", 
-  "session_status", "session_unset", "session_write_close", 
-  // Strings
-  "addcslashes", "addslashes", "bin2hex", "chop", "chr", "chunk_split", "convert_cyr_string", "convert_uudecode", "convert_uuencode", "count_chars", 
-  "crc32", "crypt", "echo", "explode", "fprintf", "get_html_translation_table", "hebrev", "hebrevc", "hex2bin", "html_entity_decode", "htmlentities", 
-  "htmlspecialchars_decode", "htmlspecialchars", "implode", "join", "lcfirst", "levenshtein", "localeconv", "ltrim", "md5_file", "md5", "metaphone", 
-  "money_format", "nl_langinfo", "nl2br", "number_format", "ord", "parse_str", "print", "printf", "quoted_printable_decode", "quoted_printable_encode", 
-  "quotemeta", "rtrim", "setlocale", "sha1_file", "sha1", "similar_text", "soundex", "sprintf", "sscanf", "str_contains", "str_ends_with", "str_getcsv", 
-  "str_ireplace", "str_pad", "str_repeat", "str_replace", "str_rot13", "str_shuffle", "str_split", "str_starts_with", "str_word_count", "strcasecmp", 
-  "strchr", "strcmp", "strcoll", "strcspn", "strip_tags", "stripcslashes", "stripos", "stripslashes", "stristr", "strlen", "strnatcasecmp", "strnatcmp", 
-  "strncasecmp", "strncmp", "strpbrk", "strpos", "strrchr", "strrev", "strripos", "strrpos", "strspn", "strstr", "strtok", "strtolower", "strtoupper", 
-  "strtr", "substr_compare", "substr_count", "substr_replace", "substr", "trim", "ucfirst", "ucwords", "utf8_decode", "utf8_encode", "vfprintf", 
-  "vsprintf", "wordwrap", 
-  // Arrays
-  "array_change_key_case", "array_chunk", "array_column", "array_combine", "array_count_values", "array_diff_assoc", "array_diff_key", "array_diff_uassoc", 
-  "array_diff_ukey", "array_diff", "array_fill_keys", "array_fill", "array_filter", "array_flip", "array_intersect_assoc", "array_intersect_key", 
-  "array_intersect_uassoc", "array_intersect_ukey", "array_intersect", "array_is_list", "array_key_exists", "array_key_first", "array_key_last", 
-  "array_keys", "array_map", "array_merge_recursive", "array_merge", "array_multisort", "array_pad", "array_pop", "array_product", "array_push", 
-  "array_rand", "array_reduce", "array_replace_recursive", "array_replace", "array_reverse", "array_search", "array_shift", "array_slice", "array_splice", 
-  "array_sum", "array_udiff_assoc", "array_udiff_uassoc", "array_udiff", "array_uintersect_assoc", "array_uintersect_uassoc", "array_uintersect", 
-  "array_unique", "array_unshift", "array_values", "array_walk_recursive", "array_walk_recursive", "array", "arsort", "asort", "compact", "count", 
-  "current", "each", "end", "extract", "in_array", "key_exists", "key", "krsort", "ksort", "list", "natcasesort", "natsort", "next", "pos", "prev", 
-  "range", "reset", "rsort", "shuffle", "sizeof", "sort", "uasort", "uksort", "usort",
-  // Class/Object Information
-  "__autoload", "class_alias", "class_exists", "enum_exists", "get_called_class", "get_class_methods", "get_class_vars", "get_class", "get_declared_classes", 
-  "get_declared_interfaces", "get_declared_traits", "get_mangled_object_vars", "get_object_vars", "get_parent_class", "interface_exists", "is_a", 
-  "is_subclass_of", "method_exists", "property_exists", "trait_exists", 
-  // Data Filtering
-  "filter_has_var", "filter_id", "filter_input_array", "filter_input", "filter_list", "filter_var_array", "filter_var", 
-  // Function Handling
-  "call_user_func_array", "call_user_func", "create_function", "forward_static_call_array", "forward_static_call", "func_get_arg", "func_get_args", 
-  "func_num_args", "function_exists", "get_defined_functions", "register_shutdown_function", "register_tick_function", "unregister_tick_function", 
-  // Variable handling
-  "boolval", "debug_zval_dump", "doubleval", "empty", "floatval", "get_debug_type", "get_defined_vars", "get_resource_id", "get_resource_type", 
-  "gettype", "intval", "is_array", "is_bool", "is_callable", "is_countable", "is_double", "is_float", "is_int", "is_integer", "is_iterable", "is_long", 
-  "is_null", "is_numeric", "is_object", "is_real", "is_resource", "is_scalar", "is_string", "isset", "print_r", "serialize", "settype", "strval", 
-  "unserialize", "unset", "var_dump", "var_export", 
-  // XML Parser
-  "xml_error_string", "xml_get_current_byte_index", "xml_get_current_column_number", "xml_get_current_line_number", "xml_get_error_code", "xml_parse_into_struct", 
-  "xml_parse", "xml_parser_create_ns", "xml_parser_create", "xml_parser_free", "xml_parser_get_option", "xml_parser_set_option", "xml_set_character_data_handler", 
-  "xml_set_default_handler", "xml_set_element_handler", "xml_set_end_namespace_decl_handler", "xml_set_external_entity_ref_handler", "xml_set_notation_decl_handler",
-  "xml_set_object", "xml_set_processing_instruction_handler", "xml_set_start_namespace_decl_handler", "xml_set_unparsed_entity_decl_handler"
-].map(n => ({label: n, type: "function"})))
-
-export const snippets: readonly Completion[] = [
-  snip("function ${name}(${params}) {\n\t${}\n}", {
-    label: "function",
-    detail: "definition",
-    type: "keyword"
-  }),
-  snip("for ($${index} = 0; $${index} < ${bound}; $${index}++) {\n\t${}\n}", {
-    label: "for",
-    detail: "loop",
-    type: "keyword"
-  }),
-  snip("foreach (${collection} as ${name}) {\n\t${}\n}", {
-    label: "foreach",
-    detail: "loop",
-    type: "keyword"
-  }),
-  snip("do {\n\t${}\n} while (${})", {
-    label: "do",
-    detail: "loop",
-    type: "keyword"
-  }),
-  snip("while (${}) {\n\t${}\n}", {
-    label: "while",
-    detail: "loop",
-    type: "keyword"
-  }),
-  snip("try {\n\t${}\n} catch (${error}) {\n\t${}\n}", {
-    label: "try",
-    detail: "/ catch block",
-    type: "keyword"
-  }),
-  snip("if (${}) {\n\t${}\n}", {
-    label: "if",
-    detail: "block",
-    type: "keyword"
-  }),
-  snip("if (${}) {\n\t${}\n} else {\n\t${}\n}", {
-    label: "if",
-    detail: "/ else block",
-    type: "keyword"
-  }),
-  snip("class ${name} {\n\t${}\n}", {
-    label: "class",
-    detail: "definition",
-    type: "keyword"
-  }),
-  snip("require ${module}", {
-    label: "require",
-    detail: "statement",
-    type: "keyword"
-  }),
-  snip("require_once ${module}", {
-    label: "require_once",
-    detail: "statement",
-    type: "keyword"
-  }),
-  snip("include ${module}", {
-    label: "include",
-    detail: "statement",
-    type: "keyword"
-  }),
-  snip("include_once ${module}", {
-    label: "include_once",
-    detail: "statement",
-    type: "keyword"
-  })
-]
+  "echo", "print", "isset", "empty", "unset", "list", "eval", "exit", "die"
+].map(n => ({label: n, type: "keyword"})))
+
+const globalSources = new Map<string | null, CompletionSource>()
 
-/// Autocompletion for built-in Python globals and keywords.
-export const globalCompletion = ifNotIn(dontComplete, completeFromList(globals.concat(snippets)))
+/// Autocompletion for built-in PHP globals, functions, and keywords.
+/// Takes the [target version](#lang-php.phpVersion) into account
+/// when completing functions.
+export const globalCompletion: CompletionSource = context => {
+  if (memberAccess(syntaxTree(context.state).resolveInner(context.pos, -1))) return null
+  let version = context.state.facet(phpVersion), source = globalSources.get(version)
+  if (!source) globalSources.set(version, source = ifNotIn(dontComplete, completeFromList(
+    globals.concat(functionCompletions(version)))))
+  return source(context)
+}
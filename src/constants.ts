@@ -0,0 +1,74 @@
+import {Tree, SyntaxNode} from "@lezer/common"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, Text} from "@codemirror/state"
+import {constantStubs} from "./builtins"
+import {ConstantInfo} from "./project"
+import {namespaceScope} from "./names"
+import {docSummary} from "./phpdoc"
+
+/// Describes one of PHP's predefined constants or variables.
+export interface BuiltinConstant extends ConstantInfo {
+  type: string
+  description: string
+}
+
+let constants: Map<string, BuiltinConstant> | null = null
+
+/// Look up a predefined constant, magic constant, or superglobal
+/// variable (including its `$`) by name.
+export function builtinConstant(name: string): BuiltinConstant | null {
+  if (!constants) {
+    constants = new Map
+    let lines = constantStubs.split("\n")
+    for (let i = 1; i < lines.length; i += 2) {
+      let [, name, type, value] = /^(\S+): (\S+)(?: = (.*))?$/.exec(lines[i])!
+      constants.set(name, {name, type, value, description: lines[i + 1].trim()})
+    }
+  }
+  return constants.get(name) || null
+}
+
+/// Read the constants declared with `const` statements or `define`
+/// calls at the top level of a syntax tree.
+export function readConstants(doc: Text, tree: Tree) {
+  let constants: ConstantInfo[] = []
+  function scan(ch: SyntaxNode | null) {
+    for (; ch; ch = ch.nextSibling) {
+      if (ch.name == "NamespaceDefinition") {
+        let block = ch.getChild("Block")
+        if (block) scan(block.firstChild)
+      } else if (ch.name == "ConstDeclaration") {
+        let ns = namespaceScope(doc, tree, ch.from).name
+        for (let d of ch.getChildren("VariableDeclarator")) {
+          let id = d.getChild("Name"), value = d.lastChild
+          if (id) constants.push({
+            name: (ns ? ns + "\\" : "") + doc.sliceString(id.from, id.to),
+            value: value && value != id ? doc.sliceString(value.from, value.to) : undefined,
+            description: docSummary(doc, ch)
+          })
+        }
+      } else if (ch.name == "ExpressionStatement") {
+        let call = ch.firstChild, callee = call?.firstChild, args = call?.getChild("ArgList")
+        if (call?.name != "CallExpression" || !callee || !args || !/^\\?define$/i.test(doc.sliceString(callee.from, callee.to)))
+          continue
+        let name = args.getChild("String"), value = name?.nextSibling?.nextSibling
+        if (name) constants.push({
+          name: doc.sliceString(name.from + 1, name.to - 1).replace(/^\\/, ""),
+          value: value && value.name != ")" ? doc.sliceString(value.from, value.to) : undefined,
+          description: docSummary(doc, ch)
+        })
+      }
+    }
+  }
+  scan(tree.topNode.firstChild)
+  return constants
+}
+
+const constantCache = new WeakMap<Tree, readonly ConstantInfo[]>()
+
+/// Get the constants declared at the top level of the document.
+export function documentConstants(state: EditorState) {
+  let tree = syntaxTree(state), found = constantCache.get(tree)
+  if (!found) constantCache.set(tree, found = readConstants(state.doc, tree))
+  return found
+}
@@ -0,0 +1,111 @@
+import {SyntaxNode, Tree} from "@lezer/common"
+import {parser} from "@lezer/php"
+import {Completion, CompletionContext, CompletionResult, snippet} from "@codemirror/autocomplete"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {typeChild} from "./scope"
+import {readDocTags} from "./phpdoc"
+
+const tagCompletions: readonly Completion[] = [
+  ["param", "type $name"], ["return", "type"], ["var", "type"], ["throws", "class"],
+  ["property", "type $name"], ["property-read", "type $name"], ["property-write", "type $name"],
+  ["method", "type name()"], ["template", "T"], ["extends", "class"], ["implements", "interface"], ["mixin", "class"],
+  ["deprecated"], ["see"], ["link"], ["since"], ["author"], ["version"], ["internal"], ["inheritDoc"],
+  ["todo"], ["uses"], ["api"], ["example"], ["global"], ["license"], ["package"]
+].map(([name, detail]) => ({label: "@" + name, type: "keyword", detail}))
+
+// Find the doc comment that the given position is inside of.
+function docCommentAt(state: EditorState, pos: number) {
+  for (let node: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1); node; node = node.parent) {
+    if (node.name != "BlockComment") continue
+    // Skip the node for the parsed content of the comment
+    if (node.parent && node.parent.name == "BlockComment") node = node.parent
+    let text = state.sliceDoc(node.from, node.to)
+    return text.startsWith("/**") && pos >= node.from + 3 && (pos <= node.to - 2 || !text.endsWith("*/")) ? node : null
+  }
+  return null
+}
+
+function paramList(decl: SyntaxNode | null) {
+  return decl && (decl.name == "FunctionDefinition" || decl.name == "MethodDeclaration") ? decl.getChild("ParamList") : null
+}
+
+/// Completion source for doc comments. Completes tag names after
+/// `@`, and the names of the parameters of the function or method
+/// that the comment documents after `@param`.
+export function phpDocCompletionSource(context: CompletionContext): CompletionResult | null {
+  let {state, pos} = context, comment = docCommentAt(state, pos)
+  if (!comment) return null
+  let tag = context.matchBefore(/@[\w-]*/)
+  if (tag && /[\s*]/.test(state.sliceDoc(tag.from - 1, tag.from)))
+    return {from: tag.from, options: tagCompletions, validFor: /^@[\w-]*$/}
+  let line = state.doc.lineAt(pos)
+  let param = /@param(?:\s+[^\s$&.*]\S*)?\s+&?(?:\.\.\.)?(\$?[\w\x80-\uffff]*)$/.exec(line.text.slice(0, pos - line.from))
+  let params = paramList(comment.nextSibling)
+  if (!param || !params || !param[1] && !context.explicit) return null
+  let from = pos - param[1].length, options: Completion[] = []
+  let documented = readDocTags(state.sliceDoc(comment.from, comment.to))
+    .filter(t => t.variable && t.variable.from != from - comment!.from).map(t => t.variable!.text)
+  for (let p = params.firstChild; p; p = p.nextSibling) {
+    let id = p.getChild("VariableName"), type = typeChild(p)
+    if (!id) continue
+    let name = state.sliceDoc(id.from, id.to)
+    if (documented.indexOf(name) < 0)
+      options.push({label: name, type: "variable", detail: type ? state.sliceDoc(type.from, type.to) : undefined})
+  }
+  return {from, options, validFor: /^\$?[\w\x80-\uffff]*$/}
+}
+
+const DeclarationNodes = /^(FunctionDefinition|MethodDeclaration|PropertyDeclaration|(Class|Interface|Trait|Enum)Declaration)$/
+
+const parsers: {[top: string]: typeof parser} = Object.create(null)
+
+// Parse the document with the comment that is being started removed,
+// and find the declaration that starts at the next non-whitespace
+// position after it.
+function declarationAfter(state: EditorState, commentStart: number, lineEnd: number) {
+  let text = state.sliceDoc(0, commentStart) + state.sliceDoc(commentStart + 2)
+  let start = lineEnd - 2 + /^\s*/.exec(text.slice(lineEnd - 2))![0].length
+  let top = syntaxTree(state).type.name
+  let tree: Tree = (parsers[top] || (parsers[top] = parser.configure({top}))).parse(text)
+  for (let cur: SyntaxNode | null = tree.resolveInner(start, 1); cur && cur.from == start; cur = cur.parent)
+    if (DeclarationNodes.test(cur.name)) return {decl: cur, text}
+  return null
+}
+
+function docBlockTemplate(decl: SyntaxNode, text: string) {
+  let lines = ["/**", " * ${}"], tags: string[] = []
+  let typeText = (node: SyntaxNode) => {
+    let type = typeChild(node)
+    return type ? text.slice(type.from, type.to).replace(/\s+/g, " ").replace(/[{}]/g, "\\$&") : "mixed"
+  }
+  let params = paramList(decl)
+  if (params) {
+    for (let p = params.firstChild; p; p = p.nextSibling) {
+      let id = p.getChild("VariableName")
+      if (id) tags.push(`@param ${typeText(p)} ${p.name == "VariadicParameter" ? "..." : ""}${text.slice(id.from, id.to)}`)
+    }
+    if (typeChild(decl)) tags.push("@return " + typeText(decl))
+  } else if (decl.name == "PropertyDeclaration") {
+    tags.push("@var " + typeText(decl))
+  }
+  if (tags.length) lines.push(" *", ...tags.map(t => " * " + t))
+  lines.push(" */")
+  return lines.join("\n")
+}
+
+/// When `/**` is typed on an otherwise empty line above a function,
+/// method, property, or class declaration, this input handler
+/// replaces it with a doc comment pre-filled with `@param`,
+/// `@return`, and `@var` tags for the declaration.
+export const autoDocBlock = EditorView.inputHandler.of((view, from, to, text) => {
+  let {state} = view
+  if (text != "*" || from != to || view.composing || state.readOnly || state.selection.ranges.length > 1) return false
+  let line = state.doc.lineAt(from)
+  if (!/^\s*\/\*$/.test(state.sliceDoc(line.from, from)) || /\S/.test(state.sliceDoc(to, line.to))) return false
+  let found = declarationAfter(state, from - 2, line.to)
+  if (!found) return false
+  snippet(docBlockTemplate(found.decl, found.text))(view, null, from - 2, to)
+  return true
+})
@@ -0,0 +1,365 @@
+import {SyntaxNode, IterMode, Tree} from "@lezer/common"
+import {EditorState, ChangeSet, ChangeSpec, Text, StateEffect, Prec} from "@codemirror/state"
+import {Command} from "@codemirror/view"
+import {ensureSyntaxTree, syntaxTree, indentUnit, IndentContext, getIndentation, indentString} from "@codemirror/language"
+
+/// Options for [`formatPHP`](#lang-php.formatPHP). The defaults
+/// follow PSR-12.
+export interface PHPFormatConfig {
+  /// Put the opening brace of classes, functions, and methods on a
+  /// line of its own. When false, it goes at the end of the
+  /// declaration's line, like the braces of control structures.
+  /// Defaults to true.
+  braceOnOwnLine?: boolean
+  /// The number of blank lines between a method and the class members
+  /// around it. Defaults to 1.
+  blankLinesAroundMethods?: number
+  /// Sort runs of `use` imports, putting classes before functions and
+  /// functions before constants, separating these groups with a
+  /// blank line, and sorting each group alphabetically. Defaults to
+  /// true.
+  sortUses?: boolean
+  /// Argument and parameter lists on lines longer than this are
+  /// wrapped to put each item on its own line. Set to zero to
+  /// disable wrapping. Defaults to 120.
+  lineLength?: number
+  /// The string used for a level of indentation. Defaults to four
+  /// spaces, regardless of the editor's
+  /// [indent unit](https://codemirror.net/6/docs/ref/#language.indentUnit).
+  indent?: string
+}
+
+type Config = Required<PHPFormatConfig>
+
+type Phase = (state: EditorState, tree: Tree, from: number, to: number, config: Config) => ChangeSpec[] | ChangeSet
+
+// Sort runs of consecutive `use` declarations.
+const sortUses: Phase = (state, tree, from, to, config) => {
+  let changes: ChangeSpec[] = [], doc = state.doc
+  if (!config.sortUses) return changes
+  let kind = (decl: SyntaxNode) => decl.getChild("function") ? 1 : decl.getChild("const") ? 2 : 0
+  let key = (decl: SyntaxNode) =>
+    kind(decl) + doc.sliceString(decl.from, decl.to).replace(/^use\s+((function|const)\s+)?\\?/i, "").toLowerCase()
+  let flush = (run: SyntaxNode[]) => {
+    if (run.length < 2 || run[0].from < from || run[run.length - 1].to > to) return
+    let sorted = run.slice().sort((a, b) => key(a) < key(b) ? -1 : key(a) > key(b) ? 1 : 0)
+    let indent = /^\s*/.exec(doc.lineAt(run[0].from).text)![0], insert = ""
+    // Separate the groups of class, function, and constant imports
+    // with a blank line
+    for (let i = 0; i < sorted.length; i++) {
+      if (i) insert += (kind(sorted[i]) != kind(sorted[i - 1]) ? "\n\n" : "\n") + indent
+      insert += doc.sliceString(sorted[i].from, sorted[i].to)
+    }
+    let start = run[0].from, end = run[run.length - 1].to
+    if (insert != doc.sliceString(start, end)) changes.push({from: start, to: end, insert})
+  }
+  let scan = (parent: SyntaxNode) => {
+    let run: SyntaxNode[] = []
+    for (let ch = parent.firstChild; ch; ch = ch.nextSibling) {
+      if (ch.name == "NamespaceUseDeclaration" &&
+          (!run.length || !/\S/.test(doc.sliceString(run[run.length - 1].to, ch.from)))) {
+        run.push(ch)
+      } else {
+        flush(run)
+        run = ch.name == "NamespaceUseDeclaration" ? [ch] : []
+      }
+      let block = ch.name == "NamespaceDefinition" && ch.getChild("Block")
+      if (block) scan(block)
+    }
+    flush(run)
+  }
+  scan(tree.topNode)
+  return changes
+}
+
+// Nodes that are formatted as a single token.
+const Atomic = new Set(["String", "HeredocString", "ShellExpression", "QualifiedName",
+                        "LineComment", "BlockComment", "Text"])
+
+// Tokens next to which whitespace is left alone.
+const Unformatted = /^(LineComment|BlockComment|Text|PhpOpen|PhpClose)$/
+
+// Statements whose block's opening brace goes on the statement's
+// line.
+const BlockOwners = /^(IfStatement|WhileStatement|DoStatement|ForStatement|ForeachStatement|SwitchStatement|TryStatement|DeclareStatement|NamespaceDefinition|FunctionExpression)$/
+
+const BinaryParents = /^(BinaryExpression|AssignmentExpression|VariableDeclarator|Parameter|PropertyParameter|ConditionalExpression)$/
+
+function collectTokens(tree: Tree, from: number, to: number) {
+  let tokens: SyntaxNode[] = []
+  tree.iterate({
+    from, to,
+    mode: IterMode.IgnoreMounts,
+    enter(node) {
+      if (!Atomic.has(node.name) && node.node.firstChild) return
+      if (node.to > node.from) tokens.push(node.node)
+      return false
+    }
+  })
+  return tokens
+}
+
+// Determine whether a brace belongs to a declaration body (which may
+// get its own line) or a block that goes on the line of its
+// statement. Returns null for other braces.
+function braceKind(brace: SyntaxNode) {
+  let body = brace.parent!, owner = body.parent
+  if (!owner) return null
+  if (body.name == "DeclarationList" || body.name == "EnumBody")
+    return owner.name == "NewExpression" ? "block" : "declaration"
+  if (body.name != "Block") return null
+  if (owner.name == "FunctionDefinition" || owner.name == "MethodDeclaration") return "declaration"
+  return BlockOwners.test(owner.name) ? "block" : null
+}
+
+// Find the class member that a token starts (`side` < 0) or ends.
+function memberAt(token: SyntaxNode, side: -1 | 1) {
+  for (let cur: SyntaxNode | null = token; cur && (side < 0 ? cur.from == token.from : cur.to == token.to); cur = cur.parent) {
+    let parent = cur.parent
+    if (parent && (parent.name == "DeclarationList" || parent.name == "EnumBody")) return cur
+  }
+  return null
+}
+
+// The number of line breaks between two class members, if
+// prescribed by the configuration.
+function memberBreaks(a: SyntaxNode, b: SyntaxNode, config: Config) {
+  let before = memberAt(a, 1), after = memberAt(b, -1)
+  if (!before || !after || before.from == after.from || before.name == "{" || after.name == "}") return null
+  // Comments are kept together with the member after them
+  let next: SyntaxNode | null = after
+  while (next && /Comment$/.test(next.name)) next = next.nextSibling
+  return before.name == "MethodDeclaration" || next && next.name == "MethodDeclaration" ? config.blankLinesAroundMethods + 1 : null
+}
+
+function isOperator(node: SyntaxNode) {
+  let parent = node.parent!.name
+  if (node.name == "=>") return true
+  if (node.name == ":") return parent == "ConditionalExpression"
+  // Compound assignments like `+=`
+  if (node.name == "UpdateOp") return true
+  return /^(ArithOp|BitOp|CompareOp|LogicOp|ConcatOp|AssignOp)$/.test(node.name) && BinaryParents.test(parent)
+}
+
+function isPrefix(node: SyntaxNode) {
+  let parent = node.parent!
+  return (parent.name == "UnaryExpression" || parent.name == "OptionalType" ||
+          parent.name == "UpdateExpression" && node.name == "ArithOp") &&
+    parent.firstChild!.from == node.from
+}
+
+// Check whether a node is a postfix `++` or `--` operator.
+function isPostfix(node: SyntaxNode) {
+  let parent = node.parent!
+  return parent.name == "UpdateExpression" && node.name == "ArithOp" && parent.lastChild!.from == node.from
+}
+
+function isKeyword(node: SyntaxNode) { return /^[a-z_]+$/.test(node.name) }
+
+// Keywords that are written directly before their parenthesis.
+const NoSpaceBeforeParen = /^(array|list|unset|declare)$/
+
+// The whitespace between two tokens on the same line.
+function inlineGap(a: SyntaxNode, b: SyntaxNode, gap: string) {
+  if (b.name == ";" || b.name == ",") return ""
+  if (a.name == ",") return b.name == ")" || b.name == "]" ? "" : " "
+  if (/^(\(|\[|#\[)$/.test(a.name) || b.name == ")" || b.name == "]") return ""
+  if (/^(->|\?->|::|\.\.\.|\$|\$\{|&)$/.test(a.name) || /^(->|\?->|::)$/.test(b.name)) return ""
+  if (isPostfix(b)) return ""
+  if (isPrefix(a)) return ""
+  if (a.name == "LogicOp" && b.name == ":" && a.parent!.name == "ConditionalExpression") return ""
+  if (a.parent!.name == "UnionType" || b.parent!.name == "UnionType" ||
+      a.parent!.name == "IntersectionType" || b.parent!.name == "IntersectionType") return ""
+  if (isOperator(a) || isOperator(b)) return " "
+  if (b.name == ":") return ""
+  if (a.name == ":") return " "
+  if (b.name == "(") return isKeyword(a) && !NoSpaceBeforeParen.test(a.name) ? " " : ""
+  if (a.name == ")" && a.parent!.name == "CastExpression") return " "
+  if (isKeyword(a) || isKeyword(b) || a.name == ";") return " "
+  return gap ? " " : ""
+}
+
+function lineBreaks(gap: string, count: number) {
+  let last = gap.lastIndexOf("\n")
+  return "\n".repeat(count) + (last < 0 ? "" : gap.slice(last + 1))
+}
+
+// Determine the whitespace that should separate two tokens, or null
+// if the whitespace should be left as it is.
+function tokenGap(doc: Text, a: SyntaxNode, b: SyntaxNode, gap: string, config: Config) {
+  if (/\S/.test(gap) || Unformatted.test(a.name) || Unformatted.test(b.name)) return null
+  let breaks = gap.split("\n").length - 1
+  if (b.name == "{") {
+    let kind = braceKind(b)
+    if (kind == "declaration" && config.braceOnOwnLine && !splitParams(doc, b.parent!.parent!)) return lineBreaks(gap, 1)
+    if (kind) return " "
+  }
+  if (a.name == "}" && braceKind(a) && /^(else|elseif|catch|finally|while)$/.test(b.name) &&
+      a.parent!.parent!.from == b.parent!.from) return " "
+  if (a.name == "{" && braceKind(a) || b.name == "}" && braceKind(b))
+    return a.name != "{" || b.name != "}" ? lineBreaks(gap, 1) : breaks ? null : ""
+  let members = memberBreaks(a, b, config)
+  if (members != null) return lineBreaks(gap, members)
+  if (a.name == ";" && a.parent!.name != "ForSpec") {
+    let statement = a.parent!.name
+    // Leave a blank line after namespace declarations and imports
+    if (statement == "NamespaceDefinition" || statement == "NamespaceUseDeclaration" && b.parent!.name != statement)
+      return lineBreaks(gap, 2)
+    return lineBreaks(gap, Math.max(1, Math.min(breaks, 2)))
+  }
+  if (a.name == ":" && /^(CaseStatement|DefaultStatement|ColonBlock)$/.test(a.parent!.name))
+    return lineBreaks(gap, Math.max(1, Math.min(breaks, 2)))
+  if (breaks) return lineBreaks(gap, Math.min(breaks, 2))
+  return inlineGap(a, b, gap)
+}
+
+// Check whether a function's parameter list is spread over multiple
+// lines, in which case PSR-12 puts the opening brace on the line of
+// the closing parenthesis.
+function splitParams(doc: Text, decl: SyntaxNode) {
+  let params = decl.getChild("ParamList")
+  return !!params && doc.lineAt(params.from).number != doc.lineAt(params.to).number
+}
+
+// Check whether removing the whitespace between two pieces of text
+// would make them read as a single token.
+function wouldJoin(doc: Text, a: SyntaxNode, b: SyntaxNode) {
+  let before = doc.sliceString(a.to - 1, a.to), after = doc.sliceString(b.from, b.from + 1)
+  return /[\w$\x80-\uffff]/.test(before) && /[\w$\x80-\uffff]/.test(after) ||
+    /[-+*\/%=<>!&|^.?:~@]/.test(before) && /[-+*\/%=<>!&|^.?:~@]/.test(after)
+}
+
+// Normalize the whitespace between tokens, placing braces and
+// spreading statements and class members over lines.
+const spacing: Phase = (state, tree, from, to, config) => {
+  let changes: ChangeSpec[] = [], tokens = collectTokens(tree, from, to), doc = state.doc
+  for (let i = 1; i < tokens.length; i++) {
+    let a = tokens[i - 1], b = tokens[i]
+    if (a.to < from || b.from > to) continue
+    let gap = doc.sliceString(a.to, b.from), insert = tokenGap(doc, a, b, gap, config)
+    if (insert == "" && gap && wouldJoin(doc, a, b)) insert = " "
+    if (insert != null && insert != gap) changes.push({from: a.to, to: b.from, insert})
+  }
+  return changes
+}
+
+// Put the items of overlong argument and parameter lists on lines
+// of their own.
+const wrapLists: Phase = (state, tree, from, to, config) => {
+  let changes: ChangeSpec[] = [], doc = state.doc
+  if (!config.lineLength) return changes
+  tree.iterate({
+    from, to,
+    mode: IterMode.IgnoreMounts,
+    enter(node) {
+      if (Atomic.has(node.name)) return false
+      if (node.name != "ArgList" && node.name != "ParamList" || node.from < from || node.to > to) return
+      let line = doc.lineAt(node.from)
+      if (node.to > line.to || line.length <= config.lineLength) return
+      let open = node.node.firstChild!
+      if (!open.nextSibling || open.nextSibling.name == ")") return
+      let prev = open
+      for (let ch: SyntaxNode | null = open.nextSibling; ch; ch = ch.nextSibling) {
+        if (prev.name == "(" || prev.name == "," || ch.name == ")") changes.push({from: prev.to, to: ch.from, insert: "\n"})
+        prev = ch
+      }
+      // Join the opening brace of the function with the closing parenthesis
+      let body = node.node.parent!.getChild("Block"), brace = body && body.firstChild
+      if (node.name == "ParamList" && brace && braceKind(brace) == "declaration")
+        changes.push({from: body!.prevSibling!.to, to: body!.from, insert: " "})
+      return false
+    }
+  })
+  return changes
+}
+
+// Check whether a position lies inside the body of a heredoc or
+// nowdoc, where whitespace is part of the string's value.
+function inHeredoc(tree: Tree, pos: number) {
+  for (let cur: SyntaxNode | null = tree.resolve(pos, 1); cur; cur = cur.parent)
+    if (cur.name == "HeredocString") return cur.from < pos
+  return false
+}
+
+// Reindent the lines in the range, leaving lines that start outside
+// of PHP code (in the template text or on a `<?php` tag) or inside
+// heredocs alone.
+const indentation: Phase = (state, tree, from, to) => {
+  let updated: {[pos: number]: number} = Object.create(null), changes: ChangeSpec[] = []
+  let context = new IndentContext(state, {overrideIndentation: pos => updated[pos] ?? -1})
+  for (let pos = from; pos <= to;) {
+    let line = state.doc.lineAt(pos), space = /^\s*/.exec(line.text)![0]
+    pos = line.to + 1
+    let start = tree.resolve(line.from + space.length, 1)
+    if (start.name == "Text" || start.name == "PhpOpen" || start.name == "TextInterpolation" ||
+        inHeredoc(tree, line.from + space.length)) continue
+    let indent = getIndentation(context, line.from)
+    if (indent == null) continue
+    if (space.length == line.length) indent = 0
+    let norm = indentString(state, indent)
+    if (norm != space) {
+      updated[line.from] = indent
+      changes.push({from: line.from, to: line.from + space.length, insert: norm})
+    }
+  }
+  return changes
+}
+
+function hasErrors(tree: Tree, from: number, to: number) {
+  let found = false
+  tree.iterate({
+    from, to,
+    mode: IterMode.IgnoreMounts,
+    enter(node) {
+      if (node.type.isError) found = true
+      return !found
+    }
+  })
+  return found
+}
+
+// Compute the changes that format the given range of the document.
+// Returns null when the code can't be fully parsed.
+function formatChanges(state: EditorState, from: number, to: number, config: Config) {
+  let changes = ChangeSet.empty(state.doc.length)
+  state = state.update({effects: StateEffect.appendConfig.of(Prec.highest(indentUnit.of(config.indent)))}).state
+  for (let phase of [sortUses, spacing, wrapLists, indentation]) {
+    let tree = ensureSyntaxTree(state, state.doc.length, 1000)
+    if (!tree || phase == sortUses && hasErrors(tree, from, to)) return null
+    // Make the finished parse visible to the indentation service
+    if (syntaxTree(state) != tree) state = state.update({}).state
+    let specs = phase(state, tree, from, to, config)
+    let set = specs instanceof ChangeSet ? specs : state.changes(specs)
+    if (set.empty) continue
+    state = state.update({changes: set}).state
+    changes = changes.compose(set)
+    from = set.mapPos(from, -1)
+    to = set.mapPos(to, 1)
+  }
+  return changes
+}
+
+/// Create a command that reformats the lines covered by the main
+/// selection or, when the selection is empty, the entire document,
+/// according to PSR-12. It places braces, normalizes the whitespace
+/// around operators, keywords, and punctuation, sorts `use`
+/// imports, puts blank lines around methods, wraps long argument
+/// lists, and reindents the code. Does nothing when the code to
+/// format contains syntax errors.
+export function formatPHP(config: PHPFormatConfig = {}): Command {
+  let conf: Config = {
+    braceOnOwnLine: config.braceOnOwnLine ?? true,
+    blankLinesAroundMethods: config.blankLinesAroundMethods ?? 1,
+    sortUses: config.sortUses ?? true,
+    lineLength: config.lineLength ?? 120,
+    indent: config.indent ?? "    "
+  }
+  return view => {
+    let {state} = view, sel = state.selection.main
+    let from = sel.empty ? 0 : state.doc.lineAt(sel.from).from, to = sel.empty ? state.doc.length : state.doc.lineAt(sel.to).to
+    let changes = formatChanges(state, from, to, conf)
+    if (!changes) return false
+    if (!changes.empty) view.dispatch({changes, userEvent: "format"})
+    return true
+  }
+}
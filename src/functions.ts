@@ -0,0 +1,251 @@
+import {Tree} from "@lezer/common"
+import {Completion} from "@codemirror/autocomplete"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, Text} from "@codemirror/state"
+import {functionStubs} from "./builtins"
+import {namespaceScope, resolveName, lookupName} from "./names"
+import {BuiltinTypes, typeChild, typeName} from "./scope"
+import {ConstantInfo, projectIndex} from "./project"
+import {builtinConstant, documentConstants} from "./constants"
+import {compareVersions} from "./version"
+import {docSummary} from "./phpdoc"
+
+/// Describes a parameter of a function or method.
+export interface ParamInfo {
+  /// The parameter's name, without `$`.
+  name: string
+  /// The declared type, if any.
+  type?: string
+  /// The source text of the default value, if the parameter has
+  /// one.
+  default?: string
+  /// Whether the argument may be left off.
+  optional: boolean
+  /// Whether the argument is passed by reference.
+  byRef: boolean
+  /// Whether this is a variadic (`...$rest`) parameter.
+  variadic: boolean
+}
+
+/// The signature of a function or method.
+export interface Signature {
+  /// The function's name. For functions defined in a namespace, this
+  /// is the fully qualified name.
+  name: string
+  params: readonly ParamInfo[]
+  /// The return type, if known.
+  returns?: string
+  /// The fully qualified name of the class that the function
+  /// returns, if any.
+  type?: string
+  description?: string
+}
+
+/// Describes a built-in function.
+export interface FunctionInfo extends Signature {
+  returns: string
+  /// A one-line description of the function.
+  description: string
+  /// The extension that provides the function.
+  extension: string
+  /// The PHP version that introduced the function, when it is newer
+  /// than 7.0.
+  since?: string
+  /// The version in which the function was deprecated.
+  deprecated?: string
+  /// The version in which the function was removed.
+  removed?: string
+}
+
+// Split a parameter list on its top-level commas, skipping commas
+// inside strings and brackets.
+function splitParams(text: string) {
+  let parts = [], depth = 0, quote = "", start = 0
+  for (let i = 0; i < text.length; i++) {
+    let ch = text[i]
+    if (quote) {
+      if (ch == "\\") i++
+      else if (ch == quote) quote = ""
+    } else if (ch == '"' || ch == "'") {
+      quote = ch
+    } else if (ch == "(" || ch == "[") {
+      depth++
+    } else if (ch == ")" || ch == "]") {
+      depth--
+    } else if (ch == "," && !depth) {
+      parts.push(text.slice(start, i))
+      start = i + 1
+    }
+  }
+  if (text.slice(start).trim()) parts.push(text.slice(start))
+  return parts
+}
+
+const paramRE =
+  /^\s*(?:#\[.*?\]\s*)?(?:(?:public|protected|private|readonly)\s+)*(?:([^\s$&.][^\s$]*?)\s*)?(&)?\s*(\.\.\.)?\s*\$([\w\xa1-\uffff]+)(?:\s*=\s*([^]*?))?\s*$/
+
+/// Parse the text of a parameter list (without the parentheses), as
+/// it appears in a declaration, into parameter descriptions.
+export function parseParams(text: string): ParamInfo[] {
+  let params = []
+  for (let part of splitParams(text)) {
+    let m = paramRE.exec(part)
+    if (!m) continue
+    let def = m[5] == "UNKNOWN" ? undefined : m[5]
+    params.push({
+      name: m[4],
+      type: m[1] || undefined,
+      default: def,
+      optional: m[5] != null || !!m[3],
+      byRef: !!m[2],
+      variadic: !!m[3]
+    })
+  }
+  return params
+}
+
+/// Render a parameter the way it would be written in a declaration.
+export function paramText(param: ParamInfo) {
+  return (param.type ? param.type + " " : "") + (param.byRef ? "&" : "") + (param.variadic ? "..." : "") +
+    "$" + param.name + (param.default != null ? " = " + param.default : param.optional && !param.variadic ? " = ?" : "")
+}
+
+// Find the first class named in a type's source text.
+function typeClass(type: string) {
+  for (let part of type.replace(/^\?/, "").split("|")) if (!BuiltinTypes.test(part)) return part
+  return undefined
+}
+
+function readFunction(line: string, description: string, extension: string): FunctionInfo | null {
+  let m = /^(\w+)\((.*)\): (\S+)((?: @\w+ [\d.]+)*)$/.exec(line)
+  if (!m) return null
+  let info: FunctionInfo = {name: m[1], params: parseParams(m[2]), returns: m[3], type: typeClass(m[3]), description, extension}
+  for (let tag of m[4].split(" @").slice(1)) {
+    let [key, version] = tag.split(" ")
+    if (key == "since" || key == "deprecated" || key == "removed") info[key] = version
+  }
+  return info
+}
+
+let functions: Map<string, FunctionInfo> | null = null
+
+/// Get the list of built-in functions known to the package. This
+/// covers PHP's core and commonly bundled extensions, not every
+/// extension that PHP can be built with.
+export function builtinFunctions(): Map<string, FunctionInfo> {
+  if (functions) return functions
+  functions = new Map
+  for (let extension in functionStubs) {
+    let lines = functionStubs[extension].split("\n")
+    for (let i = 0; i < lines.length; i++) {
+      if (!lines[i] || /^\s/.test(lines[i])) continue
+      let next = lines[i + 1], description = next && /^\s/.test(next) ? next.trim() : ""
+      let info = readFunction(lines[i], description, extension)
+      if (info) functions.set(info.name.toLowerCase(), info)
+    }
+  }
+  return functions
+}
+
+/// Look up a built-in function by name. Function names are
+/// case-insensitive, and may be written with a leading backslash.
+export function builtinFunction(name: string): FunctionInfo | null {
+  return builtinFunctions().get(name.replace(/^\\/, "").toLowerCase()) || null
+}
+
+const documentCache = new WeakMap<Tree, Map<string, Signature>>()
+
+const ClassBodies = /^(ClassDeclaration|InterfaceDeclaration|TraitDeclaration|EnumDeclaration)$/
+
+/// Read the functions defined in a syntax tree, keyed by their
+/// lower-case fully qualified name.
+export function readFunctions(doc: Text, tree: Tree) {
+  let map = new Map<string, Signature>()
+  tree.iterate({
+    enter(node) {
+      if (ClassBodies.test(node.name)) return false
+      if (node.name != "FunctionDefinition") return
+      let id = node.node.getChild("Name"), params = node.node.getChild("ParamList")
+      if (!id || !params) return
+      let scope = namespaceScope(doc, tree, node.from), returns = typeChild(node.node)
+      let name = (scope.name ? scope.name + "\\" : "") + doc.sliceString(id.from, id.to)
+      let type = returns && typeName(doc, returns)
+      map.set(name.toLowerCase(), {
+        name,
+        params: parseParams(doc.sliceString(params.from + 1, params.to - 1)),
+        returns: returns ? doc.sliceString(returns.from, returns.to) : undefined,
+        type: type && !BuiltinTypes.test(type) ? resolveName(scope, type, "class") : undefined,
+        description: docSummary(doc, node.node)
+      })
+    }
+  })
+  return map
+}
+
+/// Get the functions defined in the document, keyed by their
+/// lower-case fully qualified name.
+export function documentFunctions(state: EditorState) {
+  let tree = syntaxTree(state), found = documentCache.get(tree)
+  if (!found) documentCache.set(tree, found = readFunctions(state.doc, tree))
+  return found
+}
+
+/// Find the function that a name, as written at position `pos`,
+/// refers to, looking in the document, the project index, and PHP's
+/// built-in functions.
+export function findFunction(state: EditorState, name: string, pos: number): Signature | null {
+  let functions = documentFunctions(state), project = state.facet(projectIndex).functions
+  return lookupName(namespaceScope(state.doc, syntaxTree(state), pos), name, "function", full => {
+    full = full.toLowerCase()
+    return functions.get(full) || project.get(full) || builtinFunction(full)
+  })
+}
+
+/// Find the constant that a name, as written at position `pos`,
+/// refers to, looking in the document, the project index, and PHP's
+/// predefined constants.
+export function findConstant(state: EditorState, name: string, pos: number): ConstantInfo | null {
+  let constants = documentConstants(state), project = state.facet(projectIndex).constants
+  return lookupName(namespaceScope(state.doc, syntaxTree(state), pos), name, "constant",
+                    full => constants.find(c => c.name == full) || project.get(full) || builtinConstant(full))
+}
+
+export function functionDetail(info: {params: readonly ParamInfo[], returns?: string}) {
+  return "(" + info.params.map(paramText).join(", ") + ")" + (info.returns ? ": " + info.returns : "")
+}
+
+export function functionInfo(f: FunctionInfo) {
+  let notes = [f.extension]
+  if (f.since) notes.push("PHP " + f.since + "+")
+  if (f.deprecated) notes.push("deprecated in " + f.deprecated)
+  if (f.removed) notes.push("removed in " + f.removed)
+  return f.description + " (" + notes.join(", ") + ")"
+}
+
+const completions = new Map<string | null, readonly Completion[]>()
+
+/// Get completions for the built-in functions. When a version is
+/// given, functions not available in that version are left out, and
+/// deprecated ones are marked and ranked lower.
+export function functionCompletions(version: string | null = null): readonly Completion[] {
+  let found = completions.get(version)
+  if (found) return found
+  let result: Completion[] = []
+  for (let f of builtinFunctions().values()) {
+    let deprecated = false
+    if (version) {
+      if (f.since && compareVersions(version, f.since) < 0 || f.removed && compareVersions(version, f.removed) >= 0)
+        continue
+      deprecated = !!f.deprecated && compareVersions(version, f.deprecated) >= 0
+    }
+    result.push({
+      label: f.name,
+      type: "function",
+      detail: functionDetail(f) + (deprecated ? " (deprecated)" : ""),
+      info: functionInfo(f),
+      boost: deprecated ? -1 : undefined
+    })
+  }
+  completions.set(version, result)
+  return result
+}
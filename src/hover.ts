@@ -0,0 +1,129 @@
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, Extension} from "@codemirror/state"
+import {EditorView, hoverTooltip} from "@codemirror/view"
+import {Signature, FunctionInfo, functionDetail, functionInfo} from "./functions"
+import {ClassInfo, MemberInfo, findClass} from "./classes"
+import {BuiltinConstant, builtinConstant} from "./constants"
+import {ConstantInfo} from "./project"
+import {splitName} from "./names"
+import {SymbolID, symbolAt} from "./references"
+
+/// The information shown when hovering over a symbol.
+export interface HoverInfo {
+  /// The start of the identifier that is described.
+  from: number
+  /// The end of the identifier.
+  to: number
+  /// A summary of the symbol's declaration, such as a function's
+  /// signature.
+  declaration: string
+  /// A description of the symbol, when one is known.
+  description?: string
+}
+
+type HoverText = Omit<HoverInfo, "from" | "to">
+
+function functionHover(signature: Signature): HoverText {
+  let builtin = "extension" in signature
+  return {
+    declaration: "function " + signature.name + functionDetail(signature),
+    description: builtin ? functionInfo(signature as FunctionInfo) : signature.description
+  }
+}
+
+function classHover(info: ClassInfo): HoverText {
+  let decl = info.kind + " " + info.name
+  if (info.parents.length) decl += " extends " + info.parents.join(", ")
+  if (info.interfaces.length) decl += (info.kind == "interface" ? ", " : " implements ") + info.interfaces.join(", ")
+  return {declaration: decl, description: info.description}
+}
+
+function memberHover(member: MemberInfo): HoverText {
+  let owner = splitName(member.owner).local, decl
+  if (member.kind == "constant" || member.kind == "case") {
+    decl = (member.kind == "case" ? "case " : "const ") + owner + "::" + member.name
+  } else {
+    decl = member.visibility + (member.static ? " static " : " ")
+    decl += member.kind == "method" ? "function " + owner + "::" + member.name + (member.detail || "()")
+      : (member.detail ? member.detail + " " : "") + owner + "::$" + member.name
+  }
+  return {declaration: decl, description: member.description}
+}
+
+function constantHover(info: ConstantInfo): HoverText {
+  let builtin = "type" in info ? info as BuiltinConstant : null
+  if (builtin) return {
+    declaration: builtin.name[0] == "$" ? builtin.type + " " + builtin.name
+      : "const " + builtin.type + " " + builtin.name + (builtin.value ? " = " + builtin.value : ""),
+    description: builtin.description
+  }
+  return {declaration: "const " + info.name + (info.value ? " = " + info.value : ""), description: info.description}
+}
+
+function symbolHover(state: EditorState, symbol: SymbolID): HoverText | null {
+  switch (symbol.kind) {
+    case "function": return symbol.signature && functionHover(symbol.signature)
+    case "constant": return symbol.info && constantHover(symbol.info)
+    case "member": return memberHover(symbol.member)
+    case "class": {
+      let found = findClass(state, symbol.name)
+      return found && classHover(found)
+    }
+    default: return null
+  }
+}
+
+/// Find the information to show when hovering over the identifier
+/// ending or starting (depending on `side`) at `pos`, along with the
+/// identifier's range.
+export function hoverInfo(state: EditorState, pos: number, side: -1 | 1 = 1): HoverInfo | null {
+  let id = syntaxTree(state).resolveInner(pos, side)
+  if (id.name == "Name" && id.parent?.name == "QualifiedName") id = id.parent
+  if (id.name != "Name" && id.name != "QualifiedName" && id.name != "VariableName") return null
+  let text = state.doc.sliceString(id.from, id.to), info: HoverText | null
+  if (/^\$(GLOBALS|_[A-Z]+)$/.test(text)) {
+    let builtin = builtinConstant(text)
+    info = builtin && constantHover(builtin)
+  } else {
+    let symbol = symbolAt(state, id)
+    info = symbol && symbolHover(state, symbol)
+  }
+  return info && {from: id.from, to: id.to, ...info}
+}
+
+function renderHover(info: HoverText) {
+  let dom = document.createElement("div")
+  dom.className = "cm-php-hover"
+  dom.appendChild(document.createElement("code")).textContent = info.declaration
+  if (info.description) {
+    let desc = dom.appendChild(document.createElement("div"))
+    desc.className = "cm-php-hoverInfo"
+    desc.textContent = info.description
+  }
+  return dom
+}
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-php-hover": {
+    padding: "2px 6px",
+    maxWidth: "40em"
+  },
+  ".cm-php-hoverInfo": {
+    marginTop: "2px",
+    opacity: "0.8"
+  }
+})
+
+/// An extension that shows information about the function, class,
+/// member, or constant under the mouse pointer. For built-in symbols
+/// this is their signature and description, for symbols defined in
+/// the code, their declaration and the summary of their doc comment.
+export function phpHoverTooltips(): Extension {
+  return [
+    hoverTooltip((view, pos, side) => {
+      let info = hoverInfo(view.state, pos, side)
+      return info && {pos: info.from, end: info.to, above: true, create: () => ({dom: renderHover(info!)})}
+    }),
+    baseTheme
+  ]
+}
@@ -0,0 +1,30 @@
+import {parser} from "@lezer/php"
+import {Text} from "@codemirror/state"
+import {readClasses} from "./classes"
+import {readFunctions} from "./functions"
+import {readConstants} from "./constants"
+import {ProjectIndex} from "./project"
+
+/// Build a [project index](#lang-php.ProjectIndex) holding the
+/// classes, functions, constants, and namespaces defined in a piece
+/// of PHP code, for example to provide completion for the symbols
+/// defined in other files of a project.
+export function indexDocument(code: string | Text, config: {
+  /// When true, parse the code as plain PHP, rather than starting in
+  /// template mode, where only content after `<?php` is code.
+  plain?: boolean
+} = {}): ProjectIndex {
+  let doc = typeof code == "string" ? Text.of(code.split(/\r\n?|\n/)) : code
+  let tree = parser.configure({top: config.plain ? "Program" : "Template"}).parse(doc.toString())
+  let namespaces: string[] = []
+  for (let ch = tree.topNode.firstChild; ch; ch = ch.nextSibling) {
+    let id = ch.name == "NamespaceDefinition" && (ch.getChild("QualifiedName") || ch.getChild("Name"))
+    if (id) namespaces.push(doc.sliceString(id.from, id.to).replace(/^\\/, ""))
+  }
+  return {
+    classes: Array.from(readClasses(doc, tree).values()).filter(c => !/@anonymous/.test(c.name)),
+    functions: Array.from(readFunctions(doc, tree).values()),
+    constants: readConstants(doc, tree),
+    namespaces
+  }
+}
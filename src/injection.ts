@@ -0,0 +1,125 @@
+import {SyntaxNode, SyntaxNodeRef, Input, NestedParse} from "@lezer/common"
+import {Language} from "@codemirror/language"
+
+/// Configures which strings in PHP code are parsed with another
+/// language.
+export interface PHPInjection {
+  /// Languages for the content of heredocs and nowdocs, keyed by
+  /// their label. For example `{SQL: sqlLanguage}` parses the content
+  /// of `<<<SQL` heredocs as SQL. Labels are matched
+  /// case-insensitively.
+  heredoc?: {[label: string]: Language}
+  /// Functions and methods whose string arguments should be parsed
+  /// with another language.
+  calls?: readonly {
+    /// The name of the function (as in `"preg_match"`). Method names
+    /// are written with a `->` or `::` in front (`"->query"`), and
+    /// match calls of methods by that name on any object or class.
+    name: string
+    /// The position of the argument, counting from zero. Defaults to
+    /// 0. Named arguments are not matched.
+    argument?: number
+    /// The language to parse the argument with.
+    language: Language
+  }[]
+}
+
+// The ranges of a string's content, leaving out interpolated
+// expressions.
+function contentRanges(node: SyntaxNode, from: number, to: number) {
+  let ranges: {from: number, to: number}[] = [], pos = from
+  for (let ch = node.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name == "EscapeSequence") continue
+    if (ch.from > pos) ranges.push({from: pos, to: Math.min(ch.from, to)})
+    pos = Math.max(pos, ch.to)
+  }
+  if (to > pos) ranges.push({from: pos, to})
+  return ranges
+}
+
+function heredocLabel(node: SyntaxNodeRef, input: Input) {
+  let m = /^<<<[ \t]*(["']?)([\w\x80-\uffff]+)\1/.exec(input.read(node.from, Math.min(node.to, node.from + 100)))
+  return m ? m[2] : null
+}
+
+const HeredocInterpolation =
+  /\\[^]|\{\$|\$\{|\$[a-zA-Z_\x80-\uffff][\w\x80-\uffff]*(?:\[[^\]\n]*\]|\??->[a-zA-Z_\x80-\uffff][\w\x80-\uffff]*)?/g
+
+// The parser doesn't parse the interpolations in heredocs, so their
+// content ranges are found by scanning the text for `$var`,
+// `$var[key]`, `$var->prop`, `{$...}`, and `${...}`.
+function heredocContent(input: Input, from: number, to: number) {
+  let text = input.read(from, to), ranges: {from: number, to: number}[] = [], pos = 0, m
+  HeredocInterpolation.lastIndex = 0
+  while (m = HeredocInterpolation.exec(text)) {
+    if (m[0][0] == "\\") continue
+    let end = m.index + m[0].length
+    if (m[0] == "{$" || m[0] == "${") for (let depth = 1; end < text.length && depth; end++) {
+      if (text[end] == "{") depth++
+      else if (text[end] == "}") depth--
+    }
+    if (m.index > pos) ranges.push({from: from + pos, to: from + m.index})
+    pos = HeredocInterpolation.lastIndex = end
+  }
+  if (text.length > pos) ranges.push({from: from + pos, to})
+  return ranges
+}
+
+// The content of a heredoc runs from the line after the label to the
+// newline before the closing label.
+function heredocRanges(node: SyntaxNode, input: Input) {
+  let text = input.read(node.from, node.to)
+  let start = text.indexOf("\n"), end = text.lastIndexOf("\n")
+  if (start < 0 || end <= start) return []
+  return /^<<<[ \t]*'/.test(text) ? contentRanges(node, node.from + start + 1, node.from + end)
+    : heredocContent(input, node.from + start + 1, node.from + end)
+}
+
+function stringRanges(node: SyntaxNode, input: Input) {
+  let quote = input.read(node.from, node.from + 2).search(/["']/)
+  return quote < 0 ? [] : contentRanges(node, node.from + quote + 1, node.to - 1)
+}
+
+// Get the name under which a call's callee is looked up in the
+// `calls` configuration.
+function calleeName(callee: SyntaxNode, input: Input) {
+  if (callee.name == "Name" || callee.name == "QualifiedName") {
+    let name = input.read(callee.from, callee.to)
+    return name.slice(name.lastIndexOf("\\") + 1).toLowerCase()
+  }
+  if (callee.name == "MemberExpression" || callee.name == "ScopedExpression") {
+    let id = callee.lastChild
+    if (id && id.name == "ClassMemberName") id = id.firstChild
+    if (id && id.name == "Name") return (callee.name == "MemberExpression" ? "->" : "::") + input.read(id.from, id.to).toLowerCase()
+  }
+  return null
+}
+
+// Find the language that a string passed as a call argument should
+// be parsed with.
+function argumentLanguage(config: PHPInjection, node: SyntaxNode, input: Input) {
+  let args = node.parent
+  if (!args || args.name != "ArgList" || !config.calls) return null
+  let name = calleeName(args.parent!.firstChild!, input), index = 0
+  if (!name) return null
+  for (let ch = args.firstChild; ch && ch.from < node.from; ch = ch.nextSibling) if (ch.name == ",") index++
+  for (let spec of config.calls) {
+    if (spec.name.toLowerCase() == name && (spec.argument || 0) == index) return spec.language
+  }
+  return null
+}
+
+// Create the function that determines the nested parses for the
+// strings and heredocs selected by an injection configuration.
+export function injectionNest(config: PHPInjection) {
+  let heredoc: {[label: string]: Language} = Object.create(null)
+  for (let label in config.heredoc || {}) heredoc[label.toLowerCase()] = config.heredoc![label]
+  return (node: SyntaxNodeRef, input: Input): NestedParse | null => {
+    if (node.name != "String" && node.name != "HeredocString") return null
+    let label = node.name == "HeredocString" ? heredocLabel(node, input) : null
+    let language = label && heredoc[label.toLowerCase()] || argumentLanguage(config, node.node, input)
+    if (!language) return null
+    let overlay = node.name == "HeredocString" ? heredocRanges(node.node, input) : stringRanges(node.node, input)
+    return overlay.length ? {parser: language.parser, overlay} : null
+  }
+}
@@ -0,0 +1,553 @@
+import {SyntaxNode, Tree, IterMode} from "@lezer/common"
+import {syntaxTree, ensureSyntaxTree} from "@codemirror/language"
+import {EditorState, Text} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {Diagnostic} from "@codemirror/lint"
+import {ScopeNodes, enclosingScope, typeChild, heredocVariables} from "./scope"
+import {findFunction, builtinFunction} from "./functions"
+import {NamespaceScope, namespaceScope} from "./names"
+import {phpVersion, compareVersions} from "./version"
+
+/// Configures which checks [`phpLinter`](#lang-php.phpLinter) runs.
+/// All checks are enabled by default.
+export interface PHPLintConfig {
+  /// Warn about variables that are read in a function before any
+  /// assignment to them.
+  undefinedVariables?: boolean
+  /// Warn about variables in functions that are assigned but never
+  /// read.
+  unusedVariables?: boolean
+  /// Warn about `use` imports that aren't referred to.
+  unusedImports?: boolean
+  /// Report functions, classes, and methods that are declared more
+  /// than once.
+  duplicateDeclarations?: boolean
+  /// Report uses of `$this` outside of non-static methods.
+  thisOutsideClass?: boolean
+  /// Report `break` and `continue` statements that aren't inside a
+  /// loop or `switch` (deep enough for their level argument).
+  breakOutsideLoop?: boolean
+  /// Report `return` statements with a value in functions declared
+  /// to return `void`.
+  voidReturn?: boolean
+  /// Report syntax that isn't available in the [target PHP
+  /// version](#lang-php.phpVersion), if one is configured.
+  versionSyntax?: boolean
+}
+
+const Closing: {[open: string]: string} = {"(": ")", "[": "]", "{": "}"}
+
+// Find the token at `pos` to mention in an error message.
+function tokenAt(doc: Text, pos: number) {
+  let m = /^\s*(\$?[\w\xa1-\uffff\\]+|\S)/.exec(doc.sliceString(pos, pos + 100))
+  return m ? {from: pos + m[0].length - m[1].length, to: pos + m[0].length, text: m[1]} : null
+}
+
+// Describe the syntax error marked by an error node, guessing at the
+// missing token for empty error nodes.
+function syntaxError(doc: Text, node: SyntaxNode): Diagnostic {
+  let token = tokenAt(doc, node.from)
+  let unexpected = (): Diagnostic => token
+    ? {from: token.from, to: token.to, severity: "error", message: `Unexpected '${token.text}'`}
+    : {from: node.from, to: node.from, severity: "error", message: "Unexpected end of file"}
+  if (node.to > node.from) return unexpected()
+  let prev = node.prevSibling, parent = node.parent, expected: string | null = null
+  let open = parent && parent.firstChild && Closing[parent.firstChild.name]
+  if (prev && /^(if|elseif|while|switch|for|foreach|catch|declare)$/.test(prev.name))
+    expected = "("
+  else if (open && parent!.lastChild!.name != open)
+    expected = open
+  else if (!node.nextSibling && prev && parent && /Statement$|Declaration$/.test(parent.name))
+    expected = ";"
+  if (!expected) return unexpected()
+  return {from: node.from, to: node.from, severity: "error", message: `Expected '${expected}'`}
+}
+
+function syntaxErrors(doc: Text, tree: Tree, diagnostics: Diagnostic[]) {
+  // Only report the first error on a line, since the ones after it
+  // tend to be caused by the parser's recovery from that one
+  let lastLine = -1
+  tree.iterate({
+    mode: IterMode.IgnoreMounts,
+    enter(node) {
+      if (!node.type.isError) return
+      let line = doc.lineAt(node.from).number
+      if (line != lastLine) {
+        lastLine = line
+        diagnostics.push(syntaxError(doc, node.node))
+      }
+      return false
+    }
+  })
+}
+
+// Variables that are always available.
+const PredefinedVariables = /^\$(this|GLOBALS|_SERVER|_GET|_POST|_FILES|_COOKIE|_SESSION|_REQUEST|_ENV|http_response_header)$/
+
+const Loops = /^(ForStatement|ForeachStatement|WhileStatement|DoStatement)$/
+
+// A place where a variable gets a value. `pos` is the position after
+// which the variable holds that value. Only variables that get their
+// values exclusively from plain assignments are reported as unused.
+type Binding = {node: SyntaxNode, pos: number, assign: boolean}
+
+type ScopeVariables = {
+  scope: SyntaxNode,
+  bindings: Map<string, Binding[]>,
+  // Reads with `check` set to false are counted as uses, but
+  // shouldn't be reported when the variable isn't defined. `from`
+  // and `to` hold the range of the variable name, which may lie
+  // inside `node` (for variables interpolated into heredocs).
+  reads: {name: string, node: SyntaxNode, from: number, to: number, check: boolean}[],
+  // Set when the scope uses features that can define variables in
+  // ways that can't be followed statically.
+  dynamic: boolean
+}
+
+function readScope(state: EditorState, scope: SyntaxNode): ScopeVariables {
+  let doc = state.doc, vars: ScopeVariables = {scope, bindings: new Map, reads: [], dynamic: false}
+  let text = (node: SyntaxNode) => doc.sliceString(node.from, node.to)
+
+  function bind(node: SyntaxNode, pos: number, assign = false) {
+    let name = text(node), list = vars.bindings.get(name)
+    if (!list) vars.bindings.set(name, list = [])
+    list.push({node, pos, assign})
+  }
+  function read(node: SyntaxNode, check: boolean, name = text(node), from = node.from, to = node.to) {
+    vars.reads.push({name, node, from, to, check})
+  }
+  // Heredocs aren't parsed into separate nodes, so the variables
+  // interpolated into them are found by scanning their text.
+  function readHeredoc(node: SyntaxNode, check: boolean) {
+    for (let v of heredocVariables(doc, node)) read(node, check, v.name, v.from, v.to)
+  }
+  function scanChildren(node: SyntaxNode, check: boolean) {
+    for (let ch = node.firstChild; ch; ch = ch.nextSibling) scan(ch, check)
+  }
+  // Handle the target of an assignment, including `list()` and `[...]`
+  // destructuring patterns.
+  function bindTarget(node: SyntaxNode, pos: number, assign: boolean, check: boolean) {
+    if (node.name == "VariableName") {
+      bind(node, pos, assign)
+    } else if (node.name == "ListExpression" || node.name == "ArrayExpression") {
+      for (let ch = (node.getChild("ValueList") || node).firstChild; ch; ch = ch.nextSibling) {
+        if (ch.name == "Pair") {
+          if (ch.firstChild) scan(ch.firstChild, check)
+          if (ch.lastChild) bindTarget(ch.lastChild, pos, assign, check)
+        } else {
+          bindTarget(ch, pos, assign, check)
+        }
+      }
+    } else if (node.name == "SubscriptExpression" && node.firstChild) {
+      // Writing to an element of an undefined variable creates an array
+      let base = node.firstChild
+      if (base.name == "VariableName") { bind(base, pos); read(base, false) }
+      else bindTarget(base, pos, false, check)
+      for (let ch = base.nextSibling; ch; ch = ch.nextSibling) scan(ch, check)
+    } else {
+      scan(node, check)
+    }
+  }
+  function scanCall(node: SyntaxNode, check: boolean) {
+    let callee = node.firstChild, args = node.getChild("ArgList")
+    if (!callee) return
+    let named = callee.name == "Name" || callee.name == "QualifiedName"
+    let fname = named ? text(callee).replace(/^\\/, "").toLowerCase() : ""
+    if (fname == "isset" || fname == "empty") {
+      if (args) scanChildren(args, false)
+      return
+    }
+    if (fname == "compact" && args) {
+      for (let str of args.getChildren("String"))
+        read(str, false, "$" + doc.sliceString(str.from + 1, str.to - 1))
+    }
+    if (/^(extract|get_defined_vars|eval)$/.test(fname)) vars.dynamic = true
+    if (!named) scan(callee, check)
+    if (!args) return
+    // Variables passed to by-reference parameters are assigned by the
+    // call. When the callee isn't known, assume that might be the case
+    // for any variable argument.
+    let signature = named ? findFunction(state, text(callee), callee.from) : null
+    let params = signature ? signature.params : [], index = 0
+    for (let ch = args.firstChild; ch; ch = ch.nextSibling) {
+      if (ch.name == ",") { index++; continue }
+      let arg: SyntaxNode | null = ch
+      let param = index < params.length ? params[index] : params.length && params[params.length - 1].variadic ? params[params.length - 1] : null
+      if (ch.name == "NamedArgument") {
+        let id = ch.getChild("Name")
+        param = id && params.find(p => p.name == text(id!)) || null
+        arg = id && id.nextSibling?.nextSibling || null
+        if (!arg) continue
+      }
+      if (arg.name == "VariableName" && (!signature || param && param.byRef)) {
+        bind(arg, node.to)
+        read(arg, false)
+      } else {
+        scan(arg, check)
+      }
+    }
+  }
+  function scan(node: SyntaxNode, check: boolean) {
+    switch (node.name) {
+      case "VariableName":
+        read(node, check)
+        return
+      case "Parameter": case "VariadicParameter": case "PropertyParameter": {
+        let id = node.getChild("VariableName")
+        if (id) bind(id, scope.from)
+        return
+      }
+      case "UseList":
+        for (let v of node.getChildren("VariableName")) bind(v, scope.from)
+        return
+      case "CatchDeclarator": {
+        let id = node.getChild("VariableName")
+        if (id) bind(id, node.to)
+        return
+      }
+      case "GlobalDeclaration":
+        for (let v of node.getChildren("VariableName")) bind(v, node.to)
+        return
+      case "FunctionStaticDeclaration":
+        for (let decl of node.getChildren("VariableDeclarator")) {
+          let id = decl.getChild("VariableName"), value = decl.lastChild
+          if (value && value != id) scan(value, check)
+          if (id) bind(id, node.to)
+        }
+        return
+      case "AssignmentExpression": {
+        let target = node.firstChild, value = node.lastChild
+        if (!target || !value || target == value) break
+        // Taking a reference to a variable creates it
+        let byRef = value.name == "VariableName" && value.prevSibling?.name == "&"
+        if (byRef) { bind(value, node.to); read(value, false) }
+        else scan(value, check)
+        bindTarget(target, node.to, !byRef, check)
+        return
+      }
+      case "UpdateExpression": {
+        let target = node.firstChild, value = node.lastChild
+        if (!target || !value || target == value) break
+        scan(value, check)
+        if (target.name == "VariableName") {
+          read(target, check && text(target.nextSibling!) != "??=")
+          bind(target, node.to)
+        } else {
+          bindTarget(target, node.to, false, check)
+        }
+        return
+      }
+      case "ForeachStatement": {
+        let spec = node.getChild("ForSpec"), as = spec && spec.getChild("as"), bound = as && as.nextSibling
+        if (!spec) break
+        for (let ch = spec.firstChild; ch && ch != as; ch = ch.nextSibling) scan(ch, check)
+        if (bound && bound.name == "Pair") {
+          if (bound.firstChild) bindTarget(bound.firstChild, spec.to, false, check)
+          if (bound.lastChild) bindTarget(bound.lastChild, spec.to, false, check)
+        } else if (bound) {
+          bindTarget(bound, spec.to, false, check)
+        }
+        for (let ch = spec.nextSibling; ch; ch = ch.nextSibling) scan(ch, check)
+        return
+      }
+      case "BinaryExpression": {
+        // Like `isset`, `??` doesn't complain about its left side being undefined
+        let left = node.firstChild, op = left && left.nextSibling
+        if (!op || text(op) != "??") break
+        scan(left!, false)
+        for (let ch = op.nextSibling; ch; ch = ch.nextSibling) scan(ch, check)
+        return
+      }
+      case "CallExpression":
+        scanCall(node, check)
+        return
+      case "HeredocString":
+        readHeredoc(node, check)
+        return
+      case "UnsetStatement":
+        scanChildren(node, false)
+        return
+      case "DynamicVariable": case "IncludeExpression": case "RequireExpression":
+        vars.dynamic = true
+        break
+      case "FunctionExpression": {
+        // Only the `use` list belongs to this scope
+        let uses = node.getChild("UseList")
+        if (uses) for (let v of uses.getChildren("VariableName")) {
+          if (v.prevSibling?.name == "&") { bind(v, node.from); read(v, false) }
+          else read(v, check)
+        }
+        return
+      }
+      case "ArrowFunction":
+        // Arrow functions capture variables from this scope. Whether
+        // they are defined is checked when analyzing the arrow
+        // function itself.
+        node.cursor().iterate(ch => {
+          if (ch.name == "ClassMemberName" || ch.name == "FunctionExpression") return false
+          if (ch.name == "VariableName") read(ch.node, false)
+          else if (ch.name == "HeredocString") readHeredoc(ch.node, false)
+        })
+        return
+      case "ClassMemberName": case "DeclarationList":
+      case "FunctionDefinition": case "MethodDeclaration":
+      case "ClassDeclaration": case "InterfaceDeclaration": case "TraitDeclaration": case "EnumDeclaration":
+        return
+    }
+    scanChildren(node, check)
+  }
+
+  scanChildren(scope, true)
+  return vars
+}
+
+// Check whether `node` is inside a loop that also assigns the
+// variable, in which case the variable is defined when the loop comes
+// around again.
+function assignedInLoop(node: SyntaxNode, scope: SyntaxNode, bindings: readonly Binding[]) {
+  for (let cur = node.parent; cur && cur != scope; cur = cur.parent) {
+    if (Loops.test(cur.name) && bindings.some(b => b.node.from >= cur!.from && b.node.to <= cur!.to)) return true
+  }
+  return false
+}
+
+class VariableCheck {
+  scopes = new Map<SyntaxNode, ScopeVariables>()
+
+  constructor(readonly state: EditorState) {}
+
+  get(scope: SyntaxNode) {
+    let found = this.scopes.get(scope)
+    if (!found) this.scopes.set(scope, found = readScope(this.state, scope))
+    return found
+  }
+
+  // Variables in the global scope may be defined by other files that
+  // include this one, so those are always assumed to exist.
+  defined(vars: ScopeVariables, name: string, node: SyntaxNode, pos: number): boolean {
+    if (vars.dynamic || !vars.scope.parent) return true
+    let bindings = vars.bindings.get(name)
+    if (bindings && (bindings.some(b => b.pos <= pos) || assignedInLoop(node, vars.scope, bindings))) return true
+    if (vars.scope.name != "ArrowFunction") return false
+    let outer = enclosingScope(vars.scope)
+    return !outer || this.defined(this.get(outer), name, vars.scope, vars.scope.from)
+  }
+
+  check(scope: SyntaxNode, config: PHPLintConfig, diagnostics: Diagnostic[]) {
+    let vars = this.get(scope)
+    if (!scope.parent || vars.dynamic) return
+    if (config.undefinedVariables !== false) for (let read of vars.reads) {
+      if (read.check && !PredefinedVariables.test(read.name) && !this.defined(vars, read.name, read.node, read.from))
+        diagnostics.push({from: read.from, to: read.to, severity: "warning",
+                          message: `Variable '${read.name}' might not be defined`})
+    }
+    if (config.unusedVariables !== false) for (let [name, bindings] of vars.bindings) {
+      if (bindings.every(b => b.assign) && !vars.reads.some(r => r.name == name))
+        diagnostics.push({from: bindings[0].node.from, to: bindings[0].node.to, severity: "warning",
+                          message: `Variable '${name}' is assigned but never used`})
+    }
+  }
+}
+
+const ClassDeclarations = /^(ClassDeclaration|InterfaceDeclaration|TraitDeclaration|EnumDeclaration)$/
+
+function declName(doc: Text, node: SyntaxNode) {
+  let id = node.getChild("Name")
+  return id ? {id, name: doc.sliceString(id.from, id.to)} : null
+}
+
+// Report functions and classes that are declared more than once at
+// the top level. Conditional declarations are not checked.
+function duplicateDeclarations(doc: Text, tree: Tree, diagnostics: Diagnostic[]) {
+  let seen = new Set<string>()
+  function scan(ch: SyntaxNode | null, ns: string) {
+    for (; ch; ch = ch.nextSibling) {
+      let isClass = ClassDeclarations.test(ch.name)
+      if (ch.name == "NamespaceDefinition") {
+        let id = ch.getChild("QualifiedName") || ch.getChild("Name"), block = ch.getChild("Block")
+        let name = id ? doc.sliceString(id.from, id.to).replace(/^\\/, "") : ""
+        if (block) scan(block.firstChild, name)
+        else ns = name
+      } else if (isClass || ch.name == "FunctionDefinition") {
+        let decl = declName(doc, ch)
+        if (!decl) continue
+        let full = (ns ? ns + "\\" : "") + decl.name, key = (isClass ? "class " : "function ") + full.toLowerCase()
+        if (seen.has(key) || !isClass && !ns && builtinFunction(decl.name))
+          diagnostics.push({from: decl.id.from, to: decl.id.to, severity: "error",
+                            message: `${isClass ? "Class" : "Function"} '${full}' is already declared`})
+        seen.add(key)
+      }
+    }
+  }
+  scan(tree.topNode.firstChild, "")
+}
+
+function duplicateMethods(doc: Text, body: SyntaxNode, diagnostics: Diagnostic[]) {
+  let seen = new Set<string>()
+  for (let method of body.getChildren("MethodDeclaration")) {
+    let decl = declName(doc, method)
+    if (!decl) continue
+    let key = decl.name.toLowerCase()
+    if (seen.has(key))
+      diagnostics.push({from: decl.id.from, to: decl.id.to, severity: "error",
+                        message: `Method '${decl.name}' is already declared in this class`})
+    seen.add(key)
+  }
+}
+
+function thisOutsideClass(node: SyntaxNode, diagnostics: Diagnostic[]) {
+  for (let cur = node.parent; cur; cur = cur.parent) {
+    // Closures may be bound to an object
+    if (cur.name == "FunctionExpression" || cur.name == "ArrowFunction") return
+    if (cur.name == "MethodDeclaration") {
+      if (cur.getChild("static"))
+        diagnostics.push({from: node.from, to: node.to, severity: "error", message: "'$this' can't be used in a static method"})
+      return
+    }
+    if (ScopeNodes.has(cur.name)) break
+  }
+  diagnostics.push({from: node.from, to: node.to, severity: "error", message: "'$this' can't be used outside of a class"})
+}
+
+function breakOutsideLoop(doc: Text, node: SyntaxNode, diagnostics: Diagnostic[]) {
+  let level = node.getChild("Integer"), levels = level ? +doc.sliceString(level.from, level.to) : 1
+  for (let cur = node.parent; cur && !ScopeNodes.has(cur.name) && levels > 0; cur = cur.parent)
+    if (Loops.test(cur.name) || cur.name == "SwitchStatement") levels--
+  if (levels <= 0) return
+  let keyword = node.firstChild!, word = doc.sliceString(keyword.from, keyword.to)
+  diagnostics.push({from: node.from, to: node.to, severity: "error",
+                    message: level ? `Can't ${word} ${doc.sliceString(level.from, level.to)} levels`
+                      : `'${word}' outside of a loop or switch`})
+}
+
+function voidReturn(doc: Text, node: SyntaxNode, diagnostics: Diagnostic[]) {
+  let value = node.getChild("return")?.nextSibling
+  if (!value || value.name == ";" || value.type.isError) return
+  let scope = enclosingScope(node), type = scope && typeChild(scope)
+  if (type && /^void$/i.test(doc.sliceString(type.from, type.to)))
+    diagnostics.push({from: node.from, to: node.to, severity: "error", message: "A void function must not return a value"})
+}
+
+// Collect the names that code in the given range refers to, which
+// includes the first part of qualified names, and the words in doc
+// comments (which may refer to imported classes in types).
+function referencedNames(doc: Text, tree: Tree, from: number, to: number) {
+  let names = new Set<string>()
+  tree.iterate({
+    from, to,
+    mode: IterMode.IgnoreMounts,
+    enter(node) {
+      if (node.name == "NamespaceUseDeclaration" || node.name == "NamespaceDefinition") return false
+      if (node.name == "Name" || node.name == "QualifiedName") {
+        let name = doc.sliceString(node.from, node.to).replace(/\s+/g, "")
+        if (name[0] != "\\" && !/^namespace\\/i.test(name)) names.add(name.replace(/\\.*/, ""))
+        return false
+      }
+      if (node.name == "BlockComment") {
+        let text = doc.sliceString(node.from, node.to)
+        if (text.startsWith("/**")) for (let word of text.split(/[^\w\xa1-\uffff\\$]+/)) {
+          if (word && word[0] != "\\" && word[0] != "$") names.add(word.replace(/\\.*/, ""))
+        }
+      }
+    }
+  })
+  return names
+}
+
+function unusedImports(doc: Text, tree: Tree, diagnostics: Diagnostic[]) {
+  // Each region is the part of the document that a set of imports
+  // applies to
+  let regions: {scope: NamespaceScope, from: number, to: number}[] = []
+  let open = {scope: namespaceScope(doc, tree, 0), from: 0, to: doc.length}
+  for (let ch = tree.topNode.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name != "NamespaceDefinition") continue
+    let block = ch.getChild("Block")
+    if (block) {
+      regions.push({scope: namespaceScope(doc, tree, block.from + 1), from: block.from, to: block.to})
+    } else {
+      regions.push({...open, to: ch.from})
+      open = {scope: namespaceScope(doc, tree, ch.to), from: ch.to, to: doc.length}
+    }
+  }
+  regions.push(open)
+  for (let {scope, from, to} of regions) {
+    if (!scope.imports.length) continue
+    let names = referencedNames(doc, tree, from, to), lower = new Set(Array.from(names, n => n.toLowerCase()))
+    for (let imp of scope.imports) {
+      if (imp.kind == "constant" ? names.has(imp.alias) : lower.has(imp.alias.toLowerCase())) continue
+      let diagnostic: Diagnostic = {from: imp.node.from, to: imp.node.to, severity: "warning",
+                                    message: `Unused import '${imp.name}'`}
+      if (scope.imports.filter(i => i.node == imp.node).length == 1) diagnostic.actions = [{
+        name: "Remove",
+        apply(view, from, to) {
+          let line = view.state.doc.lineAt(to)
+          if (!/\S/.test(line.text.slice(to - line.from)) && !/\S/.test(line.text.slice(0, from - line.from)))
+            ({from, to} = {from: line.from, to: Math.min(line.to + 1, view.state.doc.length)})
+          view.dispatch({changes: {from, to}})
+        }
+      }]
+      diagnostics.push(diagnostic)
+    }
+  }
+}
+
+// Syntax introduced in later PHP versions, by node name. The `test`
+// function, when given, narrows down which nodes use the feature, and
+// returns the node to highlight.
+const VersionFeatures: {[node: string]: {feature: string, since: string, test?: (node: SyntaxNode) => SyntaxNode | null}} = {
+  Attributes: {feature: "Attributes", since: "8.0"},
+  MatchExpression: {feature: "Match expressions", since: "8.0", test: node => node.firstChild},
+  "?->": {feature: "Nullsafe operators", since: "8.0"},
+  NamedArgument: {feature: "Named arguments", since: "8.0"},
+  PropertyParameter: {feature: "Promoted constructor properties", since: "8.0"},
+  UnionType: {feature: "Union types", since: "8.0"},
+  EnumDeclaration: {feature: "Enums", since: "8.1", test: node => node.getChild("enum")},
+  readonly: {feature: "Readonly properties", since: "8.1"},
+  SpreadArgument: {feature: "First-class callables", since: "8.1",
+                   test: node => node.firstChild && !node.firstChild.nextSibling ? node.parent : null}
+}
+
+function versionSyntax(node: SyntaxNode, version: string, diagnostics: Diagnostic[]) {
+  let spec = VersionFeatures[node.name]
+  if (!spec || compareVersions(version, spec.since) >= 0) return
+  let mark = spec.test ? spec.test(node) : node
+  if (mark) diagnostics.push({from: mark.from, to: mark.to, severity: "error",
+                              message: `${spec.feature} are only available in PHP ${spec.since} and up`})
+}
+
+function lintPHP(state: EditorState, config: PHPLintConfig) {
+  let doc = state.doc, tree = ensureSyntaxTree(state, doc.length, 500) || syntaxTree(state)
+  let diagnostics: Diagnostic[] = [], variables = new VariableCheck(state)
+  let version = config.versionSyntax === false ? null : state.facet(phpVersion)
+  syntaxErrors(doc, tree, diagnostics)
+  tree.iterate({
+    mode: IterMode.IgnoreMounts,
+    enter(node) {
+      if (version) versionSyntax(node.node, version, diagnostics)
+      if (ScopeNodes.has(node.name)) {
+        variables.check(node.node, config, diagnostics)
+      } else if (node.name == "DeclarationList") {
+        if (config.duplicateDeclarations !== false) duplicateMethods(doc, node.node, diagnostics)
+      } else if (node.name == "VariableName") {
+        if (config.thisOutsideClass !== false && doc.sliceString(node.from, node.to) == "$this")
+          thisOutsideClass(node.node, diagnostics)
+      } else if (node.name == "BreakStatement" || node.name == "ContinueStatement") {
+        if (config.breakOutsideLoop !== false) breakOutsideLoop(doc, node.node, diagnostics)
+      } else if (node.name == "ReturnStatement") {
+        if (config.voidReturn !== false) voidReturn(doc, node.node, diagnostics)
+      }
+    }
+  })
+  if (config.duplicateDeclarations !== false) duplicateDeclarations(doc, tree, diagnostics)
+  if (config.unusedImports !== false) unusedImports(doc, tree, diagnostics)
+  return diagnostics.sort((a, b) => a.from - b.from)
+}
+
+/// Create a lint source that reports syntax errors and the problems
+/// found by a number of semantic checks. Use it with the
+/// [`linter`](https://codemirror.net/docs/ref/#lint.linter) function
+/// from [@codemirror/lint](https://codemirror.net/docs/ref/#lint),
+/// as in `linter(phpLinter())`.
+export function phpLinter(config: PHPLintConfig = {}): (view: EditorView) => Diagnostic[] {
+  return view => lintPHP(view.state, config)
+}
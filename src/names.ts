@@ -0,0 +1,188 @@
+import {SyntaxNode, Tree} from "@lezer/common"
+import {Text} from "@codemirror/state"
+
+export type NameKind = "class" | "function" | "constant"
+
+/// A name imported with a `use` statement.
+export interface Import {
+  kind: NameKind
+  /// The fully qualified name, without leading backslash.
+  name: string
+  /// The name under which it is available.
+  alias: string
+  /// The `NamespaceUseDeclaration` node that declares the import.
+  node: SyntaxNode
+}
+
+/// The namespace that a piece of code belongs to, along with the
+/// imports that are in effect for it.
+export interface NamespaceScope {
+  /// The namespace name, or the empty string for the global
+  /// namespace.
+  name: string
+  /// The namespace declaration, if any.
+  definition: SyntaxNode | null
+  imports: readonly Import[]
+}
+
+// Get the text of a (possibly qualified) name node, leaving off any
+// leading backslash.
+function nameText(doc: Text, node: SyntaxNode) {
+  return doc.sliceString(node.from, node.to).replace(/\s+/g, "").replace(/^\\/, "")
+}
+
+function useKind(node: SyntaxNode, dflt: NameKind): NameKind {
+  return node.getChild("function") ? "function" : node.getChild("const") ? "constant" : dflt
+}
+
+// Read the names declared by the children of a use declaration or
+// use clause, which consist of names optionally followed by `as` and
+// an alias.
+function readUseNames(doc: Text, node: SyntaxNode, prefix: string, kind: NameKind, decl: SyntaxNode, imports: Import[]) {
+  let last: Import | null = null
+  for (let ch = node.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name == "QualifiedName" || ch.name == "Name") {
+      if (last && ch.prevSibling?.name == "as") {
+        last.alias = doc.sliceString(ch.from, ch.to)
+      } else {
+        let name = prefix + nameText(doc, ch)
+        imports.push(last = {kind, name, alias: name.slice(name.lastIndexOf("\\") + 1), node: decl})
+      }
+    } else if (ch.name == "UseClause") {
+      readUseNames(doc, ch, prefix, useKind(ch, kind), decl, imports)
+    }
+  }
+}
+
+function readUse(doc: Text, decl: SyntaxNode, imports: Import[]) {
+  let kind = useKind(decl, "class"), group = decl.getChild("UseGroup")
+  if (group) {
+    let start = (decl.getChild("function") || decl.getChild("const") || decl.firstChild!).to
+    let prefix = doc.sliceString(start, group.from).replace(/\s+/g, "").replace(/^\\/, "")
+    readUseNames(doc, group, prefix, kind, decl, imports)
+  } else {
+    readUseNames(doc, decl, "", kind, decl, imports)
+  }
+}
+
+/// Find the namespace that the given position is in, and the `use`
+/// imports that apply there.
+export function namespaceScope(doc: Text, tree: Tree, pos: number): NamespaceScope {
+  let definition: SyntaxNode | null = null, body = tree.topNode, start = body.firstChild
+  for (let ch = tree.topNode.firstChild; ch && ch.from < pos; ch = ch.nextSibling) {
+    if (ch.name != "NamespaceDefinition") continue
+    let block = ch.getChild("Block")
+    if (!block) {
+      definition = ch
+      start = ch.nextSibling
+    } else if (block.from < pos && block.to >= pos) {
+      definition = ch
+      body = block
+      start = block.firstChild
+      break
+    }
+  }
+  let imports: Import[] = []
+  for (let ch = start; ch && ch.name != "NamespaceDefinition"; ch = ch.nextSibling)
+    if (ch.name == "NamespaceUseDeclaration") readUse(doc, ch, imports)
+  let id = definition && (definition.getChild("QualifiedName") || definition.getChild("Name"))
+  return {name: id ? nameText(doc, id) : "", definition, imports}
+}
+
+function sameName(a: string, b: string, kind: NameKind) {
+  return kind == "constant" ? a == b : a.toLowerCase() == b.toLowerCase()
+}
+
+/// Find the import that makes `alias` available as the given kind of
+/// name.
+export function findImport(scope: NamespaceScope, alias: string, kind: NameKind) {
+  return scope.imports.find(i => i.kind == kind && sameName(i.alias, alias, kind)) || null
+}
+
+/// Resolve a name, as written in the given scope, to a fully
+/// qualified name. This doesn't take the global fallback for
+/// function and constant names into account. Use `lookupName` when
+/// looking up a symbol.
+export function resolveName(scope: NamespaceScope, name: string, kind: NameKind) {
+  name = name.replace(/\s+/g, "")
+  if (name[0] == "\\") return name.slice(1)
+  if (/^namespace\\/i.test(name)) name = name.slice(10)
+  else {
+    let sep = name.indexOf("\\")
+    let imported = sep < 0 ? findImport(scope, name, kind) : findImport(scope, name.slice(0, sep), "class")
+    if (imported) return sep < 0 ? imported.name : imported.name + name.slice(sep)
+  }
+  return scope.name ? scope.name + "\\" + name : name
+}
+
+/// Tells whether a name of the given kind, when it doesn't exist in
+/// the current namespace, falls back to the global namespace. PHP
+/// does this, at run time, for unqualified function and constant
+/// names.
+export function hasGlobalFallback(name: string, kind: NameKind) {
+  return kind != "class" && name.indexOf("\\") < 0
+}
+
+/// Look up a name, as written in the given scope, by calling `find`
+/// with its fully qualified name, retrying with the global name when
+/// `hasGlobalFallback` applies.
+export function lookupName<T>(scope: NamespaceScope, name: string, kind: NameKind,
+                              find: (name: string) => T | null | undefined): T | null {
+  let found = find(resolveName(scope, name, kind))
+  if (!found && hasGlobalFallback(name, kind)) found = find(name.replace(/\s+/g, ""))
+  return found || null
+}
+
+/// Split a fully qualified name into its namespace and local name.
+export function splitName(name: string) {
+  let sep = name.lastIndexOf("\\")
+  return {namespace: sep < 0 ? "" : name.slice(0, sep), local: name.slice(sep + 1)}
+}
+
+const kindOrder: readonly NameKind[] = ["class", "function", "constant"]
+
+function useKey(doc: Text, decl: SyntaxNode) {
+  return {
+    rank: kindOrder.indexOf(useKind(decl, "class")),
+    name: doc.sliceString(decl.from, decl.to).replace(/^use\s+((function|const)\s+)?\\?/i, "").toLowerCase()
+  }
+}
+
+function indentBefore(doc: Text, pos: number) {
+  let line = doc.lineAt(pos)
+  return /^\s*/.exec(doc.sliceString(line.from, pos))![0]
+}
+
+/// Compute the change that adds a `use` statement importing `name`
+/// to the given namespace scope. Class imports are placed before
+/// function imports, which come before constant imports, and the
+/// statement is inserted in alphabetical order among the existing
+/// imports of its kind.
+export function importChange(doc: Text, tree: Tree, scope: NamespaceScope, kind: NameKind, name: string) {
+  let stmt = "use " + (kind == "function" ? "function " : kind == "constant" ? "const " : "") + name + ";"
+  let rank = kindOrder.indexOf(kind), key = name.toLowerCase(), last: SyntaxNode | null = null
+  for (let imp of scope.imports) {
+    if (imp.node == last) continue
+    let decl = useKey(doc, imp.node)
+    if (decl.rank > rank || decl.rank == rank && decl.name > key)
+      return {from: imp.node.from, insert: stmt + "\n" + indentBefore(doc, imp.node.from)}
+    last = imp.node
+  }
+  if (last) return {from: last.to, insert: "\n" + indentBefore(doc, last.from) + stmt}
+  let def = scope.definition, block = def && def.getChild("Block")
+  if (block) {
+    let open = block.firstChild!, first = open.nextSibling
+    let indent = first && first.name != "}" ? indentBefore(doc, first.from) : indentBefore(doc, def!.from) + "    "
+    return {from: open.to, insert: "\n" + indent + stmt + "\n"}
+  }
+  if (def) return {from: def.to, insert: "\n\n" + stmt}
+  // Put the import after the opening tag and any declare statements
+  let after = -1, before = -1
+  for (let ch = tree.topNode.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name == "TextInterpolation" && after < 0 && ch.lastChild?.name == "PhpOpen") after = ch.to
+    else if (ch.name == "DeclareStatement") after = ch.to
+    else if (ch.name != "LineComment" && ch.name != "BlockComment") { before = ch.from; break }
+  }
+  if (after > -1) return {from: after, insert: "\n\n" + stmt}
+  return {from: Math.max(0, before), insert: stmt + "\n\n"}
+}
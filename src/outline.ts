@@ -0,0 +1,148 @@
+import {SyntaxNode} from "@lezer/common"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, StateField, Text, ChangeDesc} from "@codemirror/state"
+
+/// An entry in a document's [outline](#lang-php.documentOutline).
+export interface OutlineEntry {
+  /// The entry's name. Namespaces use their qualified name, which is
+  /// empty for a global namespace block. Properties are named
+  /// without `$`.
+  name: string
+  kind: "namespace" | "class" | "interface" | "trait" | "enum" | "function" |
+    "method" | "property" | "constant" | "case"
+  /// The declared visibility of class members, which defaults to
+  /// `"public"`.
+  visibility?: "public" | "protected" | "private"
+  /// Modifier keywords like `"abstract"`, `"final"`, `"static"`, or
+  /// `"readonly"`, as applied to the declaration.
+  modifiers: readonly string[]
+  /// The start of the declaration.
+  from: number
+  /// The end of the declaration.
+  to: number
+  /// The start of the declaration's name.
+  nameFrom: number
+  /// The end of the declaration's name.
+  nameTo: number
+  /// The entries declared inside this one, in document order.
+  children: readonly OutlineEntry[]
+}
+
+const ClassKinds: {[node: string]: OutlineEntry["kind"]} = {
+  ClassDeclaration: "class",
+  InterfaceDeclaration: "interface",
+  TraitDeclaration: "trait",
+  EnumDeclaration: "enum"
+}
+
+const Modifiers = /^(abstract|final|static|readonly)$/
+
+function entry(doc: Text, decl: SyntaxNode, id: SyntaxNode, kind: OutlineEntry["kind"],
+               children: readonly OutlineEntry[] = []): OutlineEntry {
+  let modifiers: string[] = [], visibility: OutlineEntry["visibility"] = undefined
+  for (let ch = decl.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.name == "Visibility") visibility = doc.sliceString(ch.from, ch.to).toLowerCase() as OutlineEntry["visibility"]
+    else if (Modifiers.test(ch.name)) modifiers.push(ch.name)
+  }
+  let isMember = kind == "method" || kind == "property" || kind == "constant"
+  return {
+    name: doc.sliceString(id.name == "VariableName" ? id.from + 1 : id.from, id.to),
+    kind,
+    visibility: visibility || (isMember ? "public" : undefined),
+    modifiers,
+    from: decl.from, to: decl.to,
+    nameFrom: id.from, nameTo: id.to,
+    children
+  }
+}
+
+function memberEntries(doc: Text, body: SyntaxNode | null) {
+  let members: OutlineEntry[] = []
+  if (body) for (let decl = body.firstChild; decl; decl = decl.nextSibling) {
+    if (decl.name == "ConstDeclaration" || decl.name == "PropertyDeclaration") {
+      let kind = decl.name == "ConstDeclaration" ? "constant" as const : "property" as const
+      for (let d of decl.getChildren("VariableDeclarator")) {
+        let id = d.getChild(kind == "constant" ? "Name" : "VariableName")
+        if (id) members.push(entry(doc, decl, id, kind))
+      }
+    } else if (decl.name == "MethodDeclaration") {
+      let id = decl.getChild("Name")
+      if (!id) continue
+      members.push(entry(doc, decl, id, "method"))
+      // Promoted constructor parameters declare properties
+      let params = decl.getChild("ParamList")
+      if (params && /^__construct$/i.test(doc.sliceString(id.from, id.to))) for (let param of params.getChildren("PropertyParameter")) {
+        let pid = param.getChild("VariableName")
+        if (pid) members.push(entry(doc, param, pid, "property"))
+      }
+    } else if (decl.name == "EnumCase") {
+      let id = decl.getChild("Name")
+      if (id) members.push(entry(doc, decl, id, "case"))
+    }
+  }
+  return members
+}
+
+function declarationEntries(doc: Text, first: SyntaxNode | null, until: SyntaxNode | null = null) {
+  let entries: OutlineEntry[] = []
+  for (let ch = first; ch && (!until || ch.from < until.from); ch = ch.nextSibling) {
+    let kind = ClassKinds[ch.name], id = ch.getChild("Name")
+    if (kind && id) {
+      entries.push(entry(doc, ch, id, kind, memberEntries(doc, ch.getChild("DeclarationList") || ch.getChild("EnumBody"))))
+    } else if (ch.name == "FunctionDefinition" && id) {
+      entries.push(entry(doc, ch, id, "function"))
+    }
+  }
+  return entries
+}
+
+/// Build a hierarchical outline of the namespaces, classes,
+/// interfaces, traits, enums, class members, and top-level functions
+/// declared in a document. This uses the syntax tree that is
+/// currently available, which may not cover the entire document.
+export function documentOutline(state: EditorState): readonly OutlineEntry[] {
+  let doc = state.doc, top = syntaxTree(state).topNode, entries: OutlineEntry[] = []
+  let first = top.firstChild
+  while (first && first.name != "NamespaceDefinition") first = first.nextSibling
+  entries.push(...declarationEntries(doc, top.firstChild, first))
+  for (let ns = first; ns; ) {
+    let next = ns.nextSibling
+    while (next && next.name != "NamespaceDefinition") next = next.nextSibling
+    let id = ns.getChild("QualifiedName") || ns.getChild("Name"), block = ns.getChild("Block")
+    let children = block ? declarationEntries(doc, block.firstChild) : declarationEntries(doc, ns.nextSibling, next)
+    let end = block ? ns.to : next ? next.from : top.to
+    // Leave off whitespace between an unbraced namespace and the next one
+    if (!block) while (end > ns.to && /\s/.test(doc.sliceString(end - 1, end))) end--
+    entries.push({
+      name: id ? doc.sliceString(id.from, id.to).replace(/^\\/, "") : "",
+      kind: "namespace",
+      modifiers: [],
+      from: ns.from, to: end,
+      nameFrom: id ? id.from : ns.from, nameTo: id ? id.to : ns.from,
+      children
+    })
+    ns = next
+  }
+  return entries
+}
+
+function mapEntries(entries: readonly OutlineEntry[], changes: ChangeDesc): readonly OutlineEntry[] {
+  return entries.map(e => ({
+    ...e,
+    from: changes.mapPos(e.from, 1), to: changes.mapPos(e.to, -1),
+    nameFrom: changes.mapPos(e.nameFrom, 1), nameTo: changes.mapPos(e.nameTo, -1),
+    children: mapEntries(e.children, changes)
+  }))
+}
+
+/// A state field holding the [outline](#lang-php.documentOutline) of
+/// the document. It is recomputed when the syntax tree changes, and
+/// its positions are mapped through changes that the parser hasn't
+/// caught up with yet.
+export const outlineField = StateField.define<readonly OutlineEntry[]>({
+  create: documentOutline,
+  update(outline, tr) {
+    if (syntaxTree(tr.startState) != syntaxTree(tr.state)) return documentOutline(tr.state)
+    return tr.docChanged ? mapEntries(outline, tr.changes) : outline
+  }
+})
@@ -1,10 +1,43 @@
 import {parser} from "@lezer/php"
 import {parseMixed} from "@lezer/common"
 import {html} from "@codemirror/lang-html"
-import {indentNodeProp, continuedIndent, delimitedIndent, foldNodeProp, foldInside,
+import {indentNodeProp, continuedIndent, delimitedIndent, foldNodeProp, foldInside, TreeIndentContext,
         Language, LRLanguage, LanguageSupport} from "@codemirror/language"
-import {globalCompletion, localCompletionSource} from "./complete"
-export {globalCompletion, localCompletionSource}
+import {ProjectIndex, projectIndex} from "./project"
+import {phpVersion} from "./version"
+import {docParser} from "./phpdoc"
+import {PHPInjection, injectionNest} from "./injection"
+import {globalCompletion, localCompletionSource, memberCompletionSource, namespaceCompletionSource,
+        stringCompletionSource} from "./complete"
+import {phpDocCompletionSource, autoDocBlock} from "./docblock"
+import {autoCloseBlocks} from "./autoclose"
+import {PHPSnippet, phpSnippets, snippetCompletionSource} from "./snippets"
+export {globalCompletion, localCompletionSource, memberCompletionSource, namespaceCompletionSource, stringCompletionSource}
+export {phpDocCompletionSource, autoDocBlock, autoCloseBlocks}
+export {formatPHP, PHPFormatConfig} from "./format"
+export {PHPSnippet, phpSnippets, snippetCompletionSource}
+export {FunctionInfo, ParamInfo, Signature, builtinFunction, builtinFunctions} from "./functions"
+export {phpSignatureHelp, signatureAt} from "./signature"
+export {phpHoverTooltips, hoverInfo, HoverInfo} from "./hover"
+export {OutlineEntry, documentOutline, outlineField} from "./outline"
+export {findReferences, goToDefinition, renameSymbol, highlightReferences, phpNavigationKeymap} from "./references"
+export {ClassInfo, MemberInfo} from "./classes"
+export {ProjectIndex, ProjectSymbols, ConstantInfo, projectIndex} from "./project"
+export {indexDocument} from "./indexer"
+export {phpLinter, PHPLintConfig} from "./lint"
+export {phpVersion}
+export {PHPInjection}
+
+const statementIndent = continuedIndent({except: /^\s*({|end(for|foreach|switch|while)\b)/})
+
+// Lines up to the start of a declaration's keywords, after its
+// `#[...]` attributes, aren't continuation lines.
+function afterAttributes(cx: TreeIndentContext) {
+  let first = cx.node.firstChild
+  if (!first || first.name != "Attributes") return false
+  while (first && first.name == "Attributes") first = first.nextSibling
+  return !first || cx.pos <= first.from
+}
 
 /// A language provider based on the [Lezer PHP
 /// parser](https://github.com/lezer-parser/php), extended with
@@ -20,11 +53,13 @@ export const phpLanguage = LRLanguage.define({
           let after = context.textAfter, closed = /^\s*\}/.test(after), isCase = /^\s*(case|default)\b/.test(after)
           return context.baseIndent + (closed ? 0 : isCase ? 1 : 2) * context.unit
         },
+        "CaseStatement DefaultStatement": cx => cx.baseIndent + cx.unit,
         ColonBlock: cx => cx.baseIndent + cx.unit,
         "Block EnumBody DeclarationList": delimitedIndent({closing: "}"}),
+        "ArrayExpression ListExpression": delimitedIndent({closing: "]"}),
         ArrowFunction: cx => cx.baseIndent + cx.unit,
-        "String BlockComment": () => null,
-        Statement: continuedIndent({except: /^({|end(for|foreach|switch|while)\b)/})
+        "String HeredocString BlockComment": () => null,
+        Statement: cx => afterAttributes(cx) ? cx.baseIndent : statementIndent(cx)
       }),
       foldNodeProp.add({
         "Block EnumBody DeclarationList SwitchBody ArrayExpression ValueList": foldInside,
@@ -51,8 +86,22 @@ export function php(config: {
   /// When you set this to true, it starts immediately at the start of
   /// the document.
   plain?: boolean,
+  /// Symbols from other files in the project, which should be
+  /// available to completion and member lookup. Shorthand for
+  /// adding [`projectIndex`](#lang-php.projectIndex)`.of(index)`.
+  index?: ProjectIndex,
+  /// The PHP version (for example `"8.1"`) that the code targets.
+  /// See [`phpVersion`](#lang-php.phpVersion).
+  version?: string,
+  /// Parse the content of heredocs and of string arguments to
+  /// specific functions with other languages, which will then
+  /// provide highlighting, indentation, and folding for them.
+  injection?: PHPInjection,
+  /// Additional snippets to offer in completion. Shorthand for
+  /// adding [`phpSnippets`](#lang-php.phpSnippets)`.of(snippets)`.
+  snippets?: readonly PHPSnippet[]
 } = {}) {
-  let support = [], base: Language | undefined
+  let support = [], base: Language | undefined, inject = config.injection && injectionNest(config.injection)
   if (config.baseLanguage === null) {
   } else if (config.baseLanguage) {
     base = config.baseLanguage
@@ -61,15 +110,27 @@ export function php(config: {
     support.push(htmlSupport.support)
     base = htmlSupport.language
   }
+  if (config.index) support.push(projectIndex.of(config.index))
+  if (config.version) support.push(phpVersion.of(config.version))
+  if (config.snippets) support.push(phpSnippets.of(config.snippets))
   support.push(phpLanguage.data.of({autocomplete: localCompletionSource}))
+  support.push(phpLanguage.data.of({autocomplete: memberCompletionSource}))
+  support.push(phpLanguage.data.of({autocomplete: namespaceCompletionSource}))
+  support.push(phpLanguage.data.of({autocomplete: stringCompletionSource}))
   support.push(phpLanguage.data.of({autocomplete: globalCompletion}))
+  support.push(phpLanguage.data.of({autocomplete: snippetCompletionSource}))
+  support.push(phpLanguage.data.of({autocomplete: phpDocCompletionSource}))
+  support.push(autoDocBlock)
+  support.push(autoCloseBlocks)
   return new LanguageSupport(phpLanguage.configure({
-    wrap: base && parseMixed(node => {
-      if (!node.type.isTop) return null
-      return {
-        parser: base!.parser,
+    wrap: parseMixed((node, input) => {
+      if (node.type.isTop) return base ? {
+        parser: base.parser,
         overlay: node => node.name == "Text"
-      }
+      } : null
+      if (node.name == "BlockComment" && node.to - node.from > 4 && input.read(node.from, node.from + 3) == "/**")
+        return {parser: docParser}
+      return inject ? inject(node, input) : null
     }),
     top: config.plain ? "Program" : "Template"
   }), support)
@@ -0,0 +1,136 @@
+import {SyntaxNode, Parser, PartialParse, Input, TreeFragment, NodeSet, NodeType, Tree} from "@lezer/common"
+import {styleTags, tags as t} from "@lezer/highlight"
+import {Text} from "@codemirror/state"
+import {indentNodeProp, foldNodeProp} from "@codemirror/language"
+
+/// Find the doc comment (a block comment starting with `/**`)
+/// directly in front of a declaration.
+export function docComment(doc: Text, node: SyntaxNode) {
+  let prev = node.prevSibling
+  return prev && prev.name == "BlockComment" && doc.sliceString(prev.from, prev.from + 3) == "/**" ? prev : null
+}
+
+/// Get the summary of a declaration's doc comment, which is the text
+/// before the first blank line or tag.
+export function docSummary(doc: Text, node: SyntaxNode): string | undefined {
+  let comment = docComment(doc, node)
+  if (!comment) return undefined
+  let lines: string[] = []
+  for (let line of doc.sliceString(comment.from + 3, comment.to - 2).split("\n")) {
+    line = line.replace(/^\s*\*?/, "").trim()
+    if (line[0] == "@" || !line && lines.length) break
+    if (line) lines.push(line)
+  }
+  return lines.length ? lines.join(" ") : undefined
+}
+
+// A tag in a doc comment. Offsets are relative to the start of the
+// comment.
+export type DocTag = {
+  name: string, from: number, to: number,
+  type?: {text: string, from: number, to: number},
+  variable?: {text: string, from: number, to: number}
+}
+
+// Tags that are followed by a type.
+const TypedTags = /^((phpstan-|psalm-)?(param|return|var|property(-read|-write)?)|returns|throws|global|method)$/
+
+// Typed tags that are followed by a variable name.
+const VariableTags = /^((phpstan-|psalm-)?(param|var|property(-read|-write)?)|global)$/
+
+const Brackets: {[ch: string]: string} = {"<": ">", "(": ")", "[": "]", "{": "}"}
+
+// Read the extent of a type at `pos`, allowing spaces inside
+// brackets, as in `array<int, string>`.
+function readType(text: string, pos: number) {
+  let stack: string[] = []
+  for (; pos < text.length; pos++) {
+    let ch = text[pos]
+    if (Brackets[ch]) stack.push(Brackets[ch])
+    else if (stack.length && ch == stack[stack.length - 1]) stack.pop()
+    else if (/\s/.test(ch) && (!stack.length || ch == "\n") || ch == "*" && text[pos + 1] == "/") break
+  }
+  return pos
+}
+
+/// Read the tags from the text of a doc comment.
+export function readDocTags(text: string): DocTag[] {
+  let tags: DocTag[] = [], re = /(?:^|[\s*{])@([\w-]+)/g, m
+  while (m = re.exec(text)) {
+    let from = m.index + m[0].length - m[1].length - 1, to = from + m[1].length + 1
+    let tag: DocTag = {name: m[1], from, to}, name = m[1].toLowerCase()
+    tags.push(tag)
+    if (!TypedTags.test(name)) continue
+    let pos = to
+    while (pos < text.length && /[ \t]/.test(text[pos])) pos++
+    if (pos == to && pos < text.length) continue
+    if (!/^&?(\.\.\.)?\$/.test(text.slice(pos, pos + 5)) && pos < text.length && !/[\s*]/.test(text[pos])) {
+      let end = readType(text, pos)
+      tag.type = {text: text.slice(pos, end), from: pos, to: end}
+      pos = end
+      while (pos < text.length && /[ \t]/.test(text[pos])) pos++
+    }
+    let variable = VariableTags.test(name) && /^&?(?:\.\.\.)?(\$[\w\x80-\uffff]+)/.exec(text.slice(pos))
+    if (variable) {
+      let start = pos + variable[0].length - variable[1].length
+      tag.variable = {text: variable[1], from: start, to: start + variable[1].length}
+    }
+    re.lastIndex = Math.max(re.lastIndex, tag.variable ? tag.variable.to : tag.type ? tag.type.to : to)
+  }
+  return tags
+}
+
+/// Get the tags of the doc comment in front of a declaration.
+export function docTags(doc: Text, node: SyntaxNode) {
+  let comment = docComment(doc, node)
+  return comment ? readDocTags(doc.sliceString(comment.from, comment.to)) : []
+}
+
+/// Get the class name from a PHPDoc type, leaving off `null` and
+/// `false` parts and generic arguments. Returns null when the type
+/// doesn't name a class.
+export function docTypeName(type: string) {
+  for (let part of type.replace(/^\?/, "").split("|")) {
+    let name = /^\\?[\w\x80-\uffff]+(?:\\[\w\x80-\uffff]+)*/.exec(part)
+    if (!name || /^(null|false)$/i.test(name[0])) continue
+    return /^(<|$)/.test(part.slice(name[0].length)) ? name[0] : null
+  }
+  return null
+}
+
+// The top node keeps the name of the comment node it is mounted
+// on, since it takes that node's place in the tree. It isn't marked
+// as a top node, so that language data is still taken from the PHP
+// language around it.
+const docNodes = ["BlockComment", "DocTag", "DocType", "DocVariable"]
+
+const docNodeSet = new NodeSet(docNodes.map((name, id) => NodeType.define({name, id}))).extend(
+  styleTags({
+    BlockComment: t.docComment,
+    DocTag: t.keyword,
+    DocType: t.typeName,
+    DocVariable: t.variableName
+  }),
+  indentNodeProp.add({BlockComment: () => null}),
+  foldNodeProp.add({BlockComment: tree => ({from: tree.from + 2, to: tree.to - 2})})
+)
+
+class DocParser extends Parser {
+  createParse(input: Input, _fragments: readonly TreeFragment[],
+              ranges: readonly {from: number, to: number}[]): PartialParse {
+    let from = ranges[0].from, to = ranges[ranges.length - 1].to, buffer: number[] = []
+    for (let tag of readDocTags(input.read(from, to))) {
+      buffer.push(1, from + tag.from, from + tag.to, 4)
+      if (tag.type) buffer.push(2, from + tag.type.from, from + tag.type.to, 4)
+      if (tag.variable) buffer.push(3, from + tag.variable.from, from + tag.variable.to, 4)
+    }
+    buffer.push(0, from, to, buffer.length + 4)
+    let tree = Tree.build({buffer, nodeSet: docNodeSet, topID: 0, start: from, length: to - from})
+    return {advance: () => tree, parsedPos: to, stopAt() {}, stoppedAt: null}
+  }
+}
+
+/// A parser for the content of doc comments, which is mounted into
+/// `/**` comments to expose their tags, types, and variable names to
+/// highlighting.
+export const docParser: Parser = new DocParser
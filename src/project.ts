@@ -0,0 +1,61 @@
+import {Facet} from "@codemirror/state"
+import {ClassInfo} from "./classes"
+import {Signature} from "./functions"
+
+/// Describes a global or namespaced constant.
+export interface ConstantInfo {
+  /// The fully qualified name.
+  name: string
+  /// The source text of the constant's value, if known.
+  value?: string
+  /// A short description of the constant.
+  description?: string
+}
+
+/// A set of symbols defined outside of the current document, for
+/// example in other files of a project. All names should be fully
+/// qualified, without leading backslash. Such an index can be built
+/// with [`indexDocument`](#lang-php.indexDocument), or by other
+/// tools that scan a project.
+export interface ProjectIndex {
+  classes?: readonly ClassInfo[]
+  functions?: readonly Signature[]
+  constants?: readonly ConstantInfo[]
+  /// Namespaces that exist in the project. Namespaces that contain
+  /// symbols listed in the index don't have to be listed here.
+  namespaces?: readonly string[]
+}
+
+/// The combined content of the registered project indices, with
+/// classes and functions keyed by lower-case name.
+export class ProjectSymbols {
+  readonly classes = new Map<string, ClassInfo>()
+  readonly functions = new Map<string, Signature>()
+  readonly constants = new Map<string, ConstantInfo>()
+  readonly namespaces: readonly string[]
+
+  constructor(indices: readonly ProjectIndex[]) {
+    let namespaces = new Set<string>()
+    let addNS = (name: string) => {
+      for (let sep = name.lastIndexOf("\\"); sep > 0; sep = name.lastIndexOf("\\", sep - 1))
+        namespaces.add(name.slice(0, sep))
+    }
+    for (let index of indices) {
+      for (let cls of index.classes || []) { this.classes.set(cls.name.toLowerCase(), cls); addNS(cls.name) }
+      for (let f of index.functions || []) { this.functions.set(f.name.toLowerCase(), f); addNS(f.name) }
+      for (let c of index.constants || []) { this.constants.set(c.name, c); addNS(c.name) }
+      for (let ns of index.namespaces || []) { namespaces.add(ns); addNS(ns) }
+    }
+    this.namespaces = Array.from(namespaces)
+  }
+}
+
+/// Facet used to make symbols from other files available to
+/// completion, signature help, and member lookup. Multiple indices
+/// may be provided, and are combined. To update the index as the
+/// project changes, put this in a
+/// [compartment](https://codemirror.net/docs/ref/#state.Compartment)
+/// and reconfigure it.
+export const projectIndex = Facet.define<ProjectIndex, ProjectSymbols>({
+  combine: indices => new ProjectSymbols(indices)
+})
@@ -0,0 +1,293 @@
+import {SyntaxNode, IterMode} from "@lezer/common"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, TransactionSpec, Extension, Text} from "@codemirror/state"
+import {EditorView, Decoration, DecorationSet, ViewPlugin, ViewUpdate, Command, KeyBinding, showDialog} from "@codemirror/view"
+import {MemberInfo, findMember, expressionClass, ownClassName, resolveClassName, isClassReference} from "./classes"
+import {Signature, findFunction, findConstant} from "./functions"
+import {ConstantInfo} from "./project"
+import {namespaceScope, resolveName} from "./names"
+import {variableScope, isCallee, heredocVariables} from "./scope"
+
+// Identifies the symbol that a name in the code refers to. Functions
+// and constants hold the information found for them, if any.
+export type SymbolID =
+  {kind: "variable", name: string, scope: SyntaxNode} |
+  {kind: "function", name: string, signature: Signature | null} |
+  {kind: "constant", name: string, info: ConstantInfo | null} |
+  {kind: "class", name: string} |
+  {kind: "member", member: MemberInfo}
+
+const PredefinedVariables = /^\$(this|GLOBALS|_[A-Z]+)$/
+
+const ClassDeclarations = /^(Class|Interface|Trait|Enum)Declaration$/
+
+function isPropertyDeclaration(node: SyntaxNode) {
+  return node.name == "PropertyParameter" || node.name == "VariableDeclarator" && node.parent!.name == "PropertyDeclaration"
+}
+
+function isDeclaration(id: SyntaxNode) {
+  let parent = id.parent!
+  return parent.name == "FunctionDefinition" || parent.name == "MethodDeclaration" || parent.name == "EnumCase" ||
+    ClassDeclarations.test(parent.name) || isPropertyDeclaration(parent) ||
+    parent.name == "VariableDeclarator" && parent.parent!.name == "ConstDeclaration"
+}
+
+function member(found: MemberInfo | null): SymbolID | null {
+  return found && {kind: "member", member: found}
+}
+
+// Determine the symbol that a `VariableName`, `Name`, or
+// `QualifiedName` node refers to.
+export function symbolAt(state: EditorState, id: SyntaxNode): SymbolID | null {
+  let doc = state.doc, parent = id.parent, text = doc.sliceString(id.from, id.to)
+  if (!parent) return null
+  if (id.name == "VariableName") {
+    if (parent.name == "ClassMemberName")
+      return member(findMember(state, expressionClass(state, parent.parent!.firstChild!), text.slice(1), ["property"]))
+    if (isPropertyDeclaration(parent))
+      return member(findMember(state, ownClassName(state, id), text.slice(1), ["property"]))
+    if (PredefinedVariables.test(text)) return null
+    let scope = variableScope(doc, id)
+    return scope && {kind: "variable", name: text, scope}
+  }
+  let ns = () => namespaceScope(doc, syntaxTree(state), id.from)
+  if (parent.name == "FunctionDefinition" || isCallee(id)) {
+    let signature = findFunction(state, text, id.from)
+    return {kind: "function", name: signature ? signature.name : resolveName(ns(), text, "function"), signature}
+  }
+  if (parent.name == "MemberExpression" && parent.lastChild!.from == id.from)
+    return member(findMember(state, expressionClass(state, parent.firstChild!), text, isCallee(parent) ? ["method"] : ["property"]))
+  if (parent.name == "ClassMemberName") {
+    let scoped = parent.parent!
+    return member(findMember(state, expressionClass(state, scoped.firstChild!), text,
+                             isCallee(scoped) ? ["method"] : ["constant", "case"]))
+  }
+  if (parent.name == "MethodDeclaration" || parent.name == "EnumCase" ||
+      parent.name == "VariableDeclarator" && parent.parent!.parent!.name == "DeclarationList")
+    return member(findMember(state, ownClassName(state, id), text, ["method", "constant", "case"]))
+  if (ClassDeclarations.test(parent.name)) {
+    let name = ownClassName(state, id)
+    return name ? {kind: "class", name} : null
+  }
+  if (isClassReference(doc, id)) {
+    let name = resolveClassName(state, text, id)
+    return name ? {kind: "class", name} : null
+  }
+  if (parent.name == "NamespaceUseDeclaration") {
+    if (id.prevSibling?.name == "as") return null
+    let name = text.replace(/^\\/, "")
+    if (parent.getChild("function")) return {kind: "function", name, signature: findFunction(state, "\\" + name, id.from)}
+    if (parent.getChild("const")) return {kind: "constant", name, info: findConstant(state, "\\" + name, id.from)}
+    return {kind: "class", name}
+  }
+  if (parent.name == "VariableDeclarator" && parent.parent!.name == "ConstDeclaration") {
+    let name = resolveName(ns(), text, "constant")
+    return {kind: "constant", name, info: findConstant(state, "\\" + name, id.from)}
+  }
+  if (parent.type.is("Expression") || parent.type.is("Statement") || parent.name == "ArgList") {
+    let info = findConstant(state, text, id.from)
+    return {kind: "constant", name: info ? info.name : resolveName(ns(), text, "constant"), info}
+  }
+  return null
+}
+
+function sameSymbol(a: SymbolID, b: SymbolID) {
+  if (a.kind != b.kind) return false
+  switch (a.kind) {
+    case "variable": {
+      if (b.kind != "variable") return false
+      return a.name == b.name && a.scope.from == b.scope.from && a.scope.to == b.scope.to
+    }
+    case "member": {
+      if (b.kind != "member") return false
+      let m = a.member, n = b.member
+      return m.kind == n.kind && m.owner.toLowerCase() == n.owner.toLowerCase() &&
+        (m.kind == "method" ? m.name.toLowerCase() == n.name.toLowerCase() : m.name == n.name)
+    }
+    case "constant": {
+      if (b.kind != "constant") return false
+      return a.name == b.name
+    }
+    default: {
+      if (b.kind != "function" && b.kind != "class") return false
+      return a.name.toLowerCase() == b.name.toLowerCase()
+    }
+  }
+}
+
+// The part of a reference that gets replaced on rename. This leaves
+// off the `$` in front of variables and properties and the
+// namespace part of qualified names.
+function localName(text: string) {
+  return text.slice(text.lastIndexOf("\\") + 1).replace(/^\$/, "")
+}
+
+// A name in the document: an identifier node, or a variable
+// interpolated into a heredoc (`node` then being the heredoc).
+type NameRef = {from: number, to: number, node: SyntaxNode, variable?: string}
+
+// Find the name at the given position.
+function nameAt(state: EditorState, pos: number): NameRef | null {
+  let tree = syntaxTree(state)
+  for (let side of [-1, 1] as const) {
+    let node = tree.resolveInner(pos, side)
+    if (node.name == "Name" && node.parent?.name == "QualifiedName") node = node.parent
+    if (node.name == "VariableName" || node.name == "Name" || node.name == "QualifiedName")
+      return {from: node.from, to: node.to, node}
+  }
+  for (let node: SyntaxNode | null = tree.resolve(pos); node; node = node.parent) {
+    if (node.name != "HeredocString") continue
+    let found = heredocVariables(state.doc, node).find(v => v.from <= pos && v.to >= pos)
+    return found ? {from: found.from, to: found.to, node, variable: found.name} : null
+  }
+  return null
+}
+
+function heredocSymbol(doc: Text, heredoc: SyntaxNode, name: string): SymbolID | null {
+  if (PredefinedVariables.test(name)) return null
+  let scope = variableScope(doc, heredoc, name)
+  return scope && {kind: "variable", name, scope}
+}
+
+/// Find the references to the variable, function, class, class
+/// member, or constant at the given position. Returns null if there
+/// is no symbol at that position. Reference ranges cover the symbol's
+/// name, leaving off `$` prefixes and namespace qualifiers. When
+/// the symbol is declared in the document, `definition` holds the
+/// range of the name in its declaration (for variables, this is the
+/// first reference in its scope).
+export function findReferences(state: EditorState, pos: number): {
+  references: readonly {from: number, to: number}[],
+  definition: {from: number, to: number} | null
+} | null {
+  let doc = state.doc, at = nameAt(state, pos)
+  let symbol = !at ? null : at.variable ? heredocSymbol(doc, at.node, at.variable) : symbolAt(state, at.node)
+  if (!at || !symbol) return null
+  let name = at.variable ? at.variable.slice(1) : localName(doc.sliceString(at.from, at.to))
+  let ignoreCase = symbol.kind == "function" || symbol.kind == "class" || symbol.kind == "member" && symbol.member.kind == "method"
+  if (ignoreCase) name = name.toLowerCase()
+  let references: {from: number, to: number}[] = [], definition: {from: number, to: number} | null = null
+  let scope = symbol.kind == "variable" ? symbol.scope : syntaxTree(state).topNode
+  scope.cursor(IterMode.IgnoreMounts).iterate(node => {
+    if (node.name == "HeredocString") {
+      // Heredoc text isn't parsed, so interpolated variables are found by scanning it
+      if (symbol!.kind == "variable") for (let v of heredocVariables(doc, node.node)) {
+        let other = v.name == symbol!.name ? heredocSymbol(doc, node.node, v.name) : null
+        if (other && sameSymbol(symbol!, other)) {
+          let range = {from: v.to - name.length, to: v.to}
+          references.push(range)
+          if (!definition) definition = range
+        }
+      }
+      return false
+    }
+    if (node.name != "VariableName" && node.name != "Name" && node.name != "QualifiedName") return
+    let text = localName(doc.sliceString(node.from, node.to))
+    if ((ignoreCase ? text.toLowerCase() : text) == name) {
+      let other = symbolAt(state, node.node)
+      if (other && sameSymbol(symbol!, other)) {
+        let range = {from: node.to - text.length, to: node.to}
+        references.push(range)
+        if (!definition && (symbol!.kind == "variable" || isDeclaration(node.node))) definition = range
+      }
+    }
+    return false
+  })
+  return {references, definition}
+}
+
+function renameChanges(state: EditorState, pos: number, name: string): TransactionSpec | null {
+  name = name.trim().replace(/^\$/, "")
+  if (!/^[a-zA-Z_\x80-\uffff][\w\x80-\uffff]*$/.test(name)) return null
+  let found = findReferences(state, pos)
+  // Symbols declared outside the document can't be renamed
+  if (!found || !found.definition) return null
+  return {changes: found.references.map(({from, to}) => ({from, to, insert: name}))}
+}
+
+/// Move the selection to the declaration of the symbol at the
+/// cursor.
+export const goToDefinition: Command = view => {
+  let found = findReferences(view.state, view.state.selection.main.head)
+  if (!found || !found.definition) return false
+  let {from, to} = found.definition
+  view.dispatch({selection: {anchor: from, head: to}, scrollIntoView: true, userEvent: "select"})
+  return true
+}
+
+/// Prompt for a new name for the symbol at the cursor, and replace
+/// all its references in the document with that name in a single
+/// transaction.
+export const renameSymbol: Command = view => {
+  let {state} = view, pos = state.selection.main.head, found = findReferences(state, pos)
+  if (!found || !found.definition) return false
+  let {from, to} = found.definition
+  let {close, result} = showDialog(view, {
+    label: state.phrase("Rename to"),
+    input: {name: "name", value: state.sliceDoc(from, to), class: "cm-textfield"},
+    submitLabel: state.phrase("rename"),
+    focus: true
+  })
+  result.then(form => {
+    let input = form && form.elements.namedItem("name") as HTMLInputElement | null
+    let changes = input && view.state.doc == state.doc ? renameChanges(state, pos, input.value) : null
+    view.dispatch(changes ? {...changes, effects: close} : {effects: close})
+    view.focus()
+  })
+  return true
+}
+
+const referenceMark = Decoration.mark({class: "cm-php-reference"})
+
+function referenceDecorations(state: EditorState) {
+  let sel = state.selection.main
+  let found = sel.empty ? findReferences(state, sel.head) : null
+  return found ? Decoration.set(found.references.map(r => referenceMark.range(r.from, r.to))) : Decoration.none
+}
+
+function cursorName(state: EditorState) {
+  let sel = state.selection.main
+  return sel.empty ? nameAt(state, sel.head) : null
+}
+
+const referenceHighlighter = ViewPlugin.fromClass(class {
+  decorations: DecorationSet
+  name: NameRef | null
+
+  constructor(view: EditorView) {
+    this.decorations = referenceDecorations(view.state)
+    this.name = cursorName(view.state)
+  }
+
+  update(update: ViewUpdate) {
+    if (!update.docChanged && !update.selectionSet && syntaxTree(update.startState) == syntaxTree(update.state)) return
+    let name = cursorName(update.state), prev = this.name
+    this.name = name
+    // The references stay the same while the cursor moves inside a name
+    if (!update.docChanged && syntaxTree(update.startState) == syntaxTree(update.state) &&
+        (name ? prev && prev.from == name.from && prev.to == name.to : !prev)) return
+    this.decorations = referenceDecorations(update.state)
+  }
+}, {
+  decorations: v => v.decorations
+})
+
+const baseTheme = EditorView.baseTheme({
+  "&light .cm-php-reference": {backgroundColor: "#d9e8ff"},
+  "&dark .cm-php-reference": {backgroundColor: "#34496d"}
+})
+
+/// Highlight the references to the symbol at the cursor, following
+/// PHP's scoping rules for variables.
+export function highlightReferences(): Extension {
+  return [referenceHighlighter, baseTheme]
+}
+
+/// Key bindings for symbol navigation:
+///
+///  - F12: [`goToDefinition`](#lang-php.goToDefinition)
+///  - F2: [`renameSymbol`](#lang-php.renameSymbol)
+export const phpNavigationKeymap: readonly KeyBinding[] = [
+  {key: "F12", run: goToDefinition},
+  {key: "F2", run: renameSymbol}
+]
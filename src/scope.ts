@@ -0,0 +1,155 @@
+import {SyntaxNode} from "@lezer/common"
+import {Text} from "@codemirror/state"
+import {docTags, readDocTags, docTypeName} from "./phpdoc"
+
+export const ScopeNodes = new Set([
+  "Program", "Template",
+  "FunctionDefinition", "MethodDeclaration", "FunctionExpression", "ArrowFunction"
+])
+
+// Scopes that don't see the variables of the scope around them
+// (arrow functions do, since they capture it by value).
+export const IsolatedScopes = new Set(["FunctionDefinition", "MethodDeclaration", "FunctionExpression"])
+
+export const BuiltinTypes =
+  /^(array|bool|callable|false|float|int|iterable|mixed|never|null|object|string|true|void|self|static|parent)$/i
+
+const ClassNodes = ["ClassDeclaration", "InterfaceDeclaration", "TraitDeclaration", "EnumDeclaration"]
+
+export function enclosingScope(node: SyntaxNode) {
+  for (let cur = node.parent; cur; cur = cur.parent) if (ScopeNodes.has(cur.name)) return cur
+  return null
+}
+
+// Find the class-like declaration that a node is part of.
+// Anonymous classes (`new class {...}`) are returned as their
+// `NewExpression` node.
+export function enclosingClass(node: SyntaxNode) {
+  for (let cur: SyntaxNode | null = node; cur; cur = cur.parent) {
+    if (ClassNodes.indexOf(cur.name) > -1) return cur
+    if (cur.name == "NewExpression" && cur.getChild("DeclarationList")) return cur
+  }
+  return null
+}
+
+// Get the source text of the first class or scalar type named by a
+// type node, leaving off `?` and `null` parts of the type.
+export function typeName(doc: Text, type: SyntaxNode): string | null {
+  if (type.name == "NamedType") {
+    let name = type.firstChild
+    return name && name.name != "null" ? doc.sliceString(name.from, name.to) : null
+  }
+  for (let ch = type.firstChild; ch; ch = ch.nextSibling) {
+    if (ch.type.is("Type")) {
+      let name = typeName(doc, ch)
+      if (name) return name
+    }
+  }
+  return null
+}
+
+// Check whether a node is the callee of a call expression.
+export function isCallee(node: SyntaxNode) {
+  let parent = node.parent
+  return !!parent && parent.name == "CallExpression" && parent.firstChild!.from == node.from
+}
+
+export function typeChild(node: SyntaxNode) {
+  for (let ch = node.firstChild; ch; ch = ch.nextSibling) if (ch.type.is("Type")) return ch
+  return null
+}
+
+// Describes where a variable gets its value from. Either `type`
+// holds a type annotation node (for parameters and catch clauses),
+// or `value` holds the expression last assigned to the variable.
+// `docType` holds a class name given by a `@param` or `@var` tag.
+export type VariableSource = {type?: SyntaxNode, value?: SyntaxNode, docType?: string}
+
+// Find the type that a `@param` or `@var` tag in the doc comment
+// in front of `node` gives to variable `name`. `@var` tags without
+// variable name apply to any variable.
+function docVariableType(doc: Text, node: SyntaxNode, name: string, tag: string) {
+  for (let t of docTags(doc, node)) {
+    if (t.name.toLowerCase() == tag && t.type && (t.variable ? t.variable.text == name : tag == "var"))
+      return docTypeName(t.type.text) || undefined
+  }
+  return undefined
+}
+
+// Find the declaration or last assignment before `at` that gives
+// the variable `name` its value, following PHP's scoping rules.
+export function variableSource(doc: Text, name: string, at: SyntaxNode): VariableSource | null {
+  let scope = enclosingScope(at)
+  if (!scope) return null
+  let found: VariableSource | null = null, pos = at.from, top = true
+  scope.cursor().iterate(node => {
+    if (top) { top = false; return }
+    if (node.from >= pos || ScopeNodes.has(node.name)) return false
+    if (/^(Parameter|VariadicParameter|PropertyParameter|CatchDeclarator)$/.test(node.name)) {
+      let id = node.node.getChild("VariableName"), type = typeChild(node.node), fn = node.node.parent!.parent
+      if (id && doc.sliceString(id.from, id.to) == name)
+        found = {type: type || undefined, docType: fn && node.name != "CatchDeclarator" ? docVariableType(doc, fn, name, "param") : undefined}
+      return false
+    } else if (node.name == "AssignmentExpression" && node.to <= pos) {
+      let target = node.node.firstChild, value = node.node.lastChild, statement = node.node.parent!
+      if (target && value && target.name == "VariableName" && doc.sliceString(target.from, target.to) == name)
+        found = {value, docType: statement.name == "ExpressionStatement" ? docVariableType(doc, statement, name, "var") : undefined}
+    } else if (node.name == "BlockComment" && node.to <= pos) {
+      // Inline `/** @var Type $name */` annotations
+      let tag = readDocTags(doc.sliceString(node.from, node.to)).find(t => t.name == "var" && t.type && t.variable?.text == name)
+      let type = tag && docTypeName(tag.type!.text)
+      if (type) found = {docType: type}
+      return false
+    }
+  })
+  if (found) return found
+  if (scope.name == "ArrowFunction") return variableSource(doc, name, scope)
+  if (scope.name == "FunctionExpression") {
+    let uses = scope.getChild("UseList")
+    if (uses && uses.getChildren("VariableName").some(v => doc.sliceString(v.from, v.to) == name))
+      return variableSource(doc, name, scope)
+  }
+  return null
+}
+
+function declaresParam(doc: Text, scope: SyntaxNode, name: string) {
+  let params = scope.getChild("ParamList")
+  if (params) for (let param = params.firstChild; param; param = param.nextSibling) {
+    let id = param.getChild("VariableName")
+    if (id && doc.sliceString(id.from, id.to) == name) return true
+  }
+  return false
+}
+
+// Find the scope that owns the variable referred to by a
+// `VariableName` node (or, when `name` is given, the variable by
+// that name used in `node`). Arrow functions (unless they have a
+// parameter by that name) and closures that import the variable
+// with `use` share it with the scope around them.
+export function variableScope(doc: Text, node: SyntaxNode, name = doc.sliceString(node.from, node.to)) {
+  for (let scope = enclosingScope(node); scope; scope = enclosingScope(scope)) {
+    if (scope.name == "ArrowFunction") {
+      if (declaresParam(doc, scope, name)) return scope
+    } else if (scope.name == "FunctionExpression") {
+      let uses = scope.getChild("UseList")
+      if (!uses || !uses.getChildren("VariableName").some(v => doc.sliceString(v.from, v.to) == name)) return scope
+    } else {
+      return scope
+    }
+  }
+  return null
+}
+
+// Find the variables interpolated into a heredoc, which the parser
+// doesn't parse. `from` and `to` cover the `$` and the name.
+// Returns nothing for nowdocs.
+export function heredocVariables(doc: Text, node: SyntaxNode) {
+  let content = doc.sliceString(node.from, node.to), found: {name: string, from: number, to: number}[] = [], m
+  if (/^<<<\s*'/.test(content)) return found
+  let re = /\\[^]|\$\{?([a-zA-Z_\x80-\uffff][\w\x80-\uffff]*)/g
+  while (m = re.exec(content)) {
+    let from = node.from + m.index
+    if (m[1]) found.push({name: "$" + m[1], from, to: from + m[0].length})
+  }
+  return found
+}
@@ -0,0 +1,138 @@
+import {SyntaxNode} from "@lezer/common"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, StateField, Extension} from "@codemirror/state"
+import {EditorView, Tooltip, showTooltip} from "@codemirror/view"
+import {ParamInfo, Signature, findFunction, parseParams, paramText} from "./functions"
+import {MemberInfo, findMember, expressionClass} from "./classes"
+import {ScopeNodes} from "./scope"
+import {splitName} from "./names"
+
+function methodSignature(member: MemberInfo): Signature {
+  let m = /^\((.*)\)(?:: (.*))?$/.exec(member.detail || "()")
+  return {name: member.name, params: m ? parseParams(m[1]) : [], returns: m && m[2] || undefined}
+}
+
+function findMethod(state: EditorState, cls: string | null, name: string) {
+  let method = findMember(state, cls, name, ["method"])
+  return method ? methodSignature(method) : null
+}
+
+// Find the signature of the function called by a `CallExpression` or
+// constructed by a `NewExpression`.
+function calleeSignature(state: EditorState, call: SyntaxNode): Signature | null {
+  let doc = state.doc
+  if (call.name == "NewExpression") {
+    let cls = call.getChild("new")?.nextSibling
+    if (!cls || cls.name != "Name" && cls.name != "QualifiedName") return null
+    return findMethod(state, expressionClass(state, cls), "__construct")
+  }
+  let callee = call.firstChild
+  if (!callee) return null
+  if (callee.name == "Name" || callee.name == "QualifiedName") {
+    return findFunction(state, doc.sliceString(callee.from, callee.to), callee.from)
+  }
+  if (callee.name == "MemberExpression" || callee.name == "ScopedExpression") {
+    let object = callee.firstChild, id = callee.lastChild
+    if (id && id.name == "ClassMemberName") id = id.firstChild
+    if (!object || !id || id.name != "Name") return null
+    return findMethod(state, expressionClass(state, object), doc.sliceString(id.from, id.to))
+  }
+  return null
+}
+
+// Determine which parameter the argument at `pos` corresponds to.
+function activeParameter(state: EditorState, args: SyntaxNode, pos: number, params: readonly ParamInfo[]) {
+  let index = 0, named: string | null = null
+  for (let ch = args.firstChild; ch && ch.from < pos; ch = ch.nextSibling) {
+    if (ch.name == ",") {
+      index++
+      named = null
+    } else if (ch.name == "NamedArgument") {
+      let id = ch.getChild("Name")
+      if (id) named = state.doc.sliceString(id.from, id.to)
+    }
+  }
+  if (named != null) return params.findIndex(p => p.name == named)
+  if (index >= params.length) return params.length && params[params.length - 1].variadic ? params.length - 1 : -1
+  return index
+}
+
+/// Find the signature of the call whose argument list the given
+/// position is in, along with the index of the parameter that the
+/// argument at that position is passed to (or -1 if it doesn't match
+/// a parameter).
+export function signatureAt(state: EditorState, pos: number): {signature: Signature, active: number, args: SyntaxNode} | null {
+  for (let cur: SyntaxNode | null = syntaxTree(state).resolveInner(pos, -1); cur; cur = cur.parent) {
+    if (ScopeNodes.has(cur.name) || cur.name == "Block" || cur.name == "DeclarationList") return null
+    if (cur.name != "ArgList") continue
+    let close = cur.lastChild
+    if (pos <= cur.from || close && close.name == ")" && pos >= close.to) continue
+    let signature = cur.parent && calleeSignature(state, cur.parent)
+    return signature && {signature, active: activeParameter(state, cur, pos, signature.params), args: cur}
+  }
+  return null
+}
+
+function renderSignature(signature: Signature, active: number) {
+  let dom = document.createElement("div")
+  dom.className = "cm-php-signature"
+  let line = dom.appendChild(document.createElement("code"))
+  line.appendChild(document.createTextNode(splitName(signature.name).local + "("))
+  signature.params.forEach((param, i) => {
+    if (i) line.appendChild(document.createTextNode(", "))
+    let span = line.appendChild(document.createElement("span"))
+    span.textContent = paramText(param)
+    if (i == active) span.className = "cm-php-activeParameter"
+  })
+  line.appendChild(document.createTextNode(")" + (signature.returns ? ": " + signature.returns : "")))
+  if (signature.description) {
+    let info = dom.appendChild(document.createElement("div"))
+    info.className = "cm-php-signatureInfo"
+    info.textContent = signature.description
+  }
+  return dom
+}
+
+function signatureTooltip(state: EditorState): Tooltip | null {
+  let sel = state.selection.main
+  if (!sel.empty) return null
+  let found = signatureAt(state, sel.head)
+  if (!found) return null
+  let {signature, active, args} = found
+  return {
+    pos: args.from,
+    above: true,
+    create: () => ({dom: renderSignature(signature, active)})
+  }
+}
+
+const signatureField = StateField.define<Tooltip | null>({
+  create: signatureTooltip,
+  update(tooltip, tr) {
+    return tr.docChanged || tr.selection || syntaxTree(tr.startState) != syntaxTree(tr.state)
+      ? signatureTooltip(tr.state) : tooltip
+  },
+  provide: f => showTooltip.from(f)
+})
+
+const baseTheme = EditorView.baseTheme({
+  ".cm-php-signature": {
+    padding: "2px 6px",
+    maxWidth: "40em"
+  },
+  ".cm-php-activeParameter": {
+    fontWeight: "bold",
+    textDecoration: "underline"
+  },
+  ".cm-php-signatureInfo": {
+    marginTop: "2px",
+    opacity: "0.8"
+  }
+})
+
+/// An extension that shows a tooltip with the signature of the
+/// function or method being called, highlighting the current
+/// parameter, when the cursor is inside an argument list.
+export function phpSignatureHelp(): Extension {
+  return [signatureField, baseTheme]
+}
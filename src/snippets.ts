@@ -0,0 +1,167 @@
+import {SyntaxNode} from "@lezer/common"
+import {Completion, CompletionContext, CompletionResult, snippetCompletion as snip} from "@codemirror/autocomplete"
+import {syntaxTree} from "@codemirror/language"
+import {EditorState, Facet} from "@codemirror/state"
+
+/// A snippet that is offered in completion, along with the kind of
+/// position where it can be used.
+export interface PHPSnippet {
+  /// The label shown in the completion list, which is also the text
+  /// that is matched against what the user typed.
+  label: string
+  /// The [snippet
+  /// template](https://codemirror.net/docs/ref/#autocomplete.snippet)
+  /// to insert.
+  template: string
+  /// Where the snippet may be inserted:
+  ///
+  /// - `"file"`: at the top level of a file, outside of namespace
+  ///   blocks, for things like `namespace` and `declare`.
+  ///
+  /// - `"top"`: at the top level of a file or a namespace block,
+  ///   for declarations like classes.
+  ///
+  /// - `"statement"`: anywhere a statement can start, including the
+  ///   top level.
+  ///
+  /// - `"expression"`: anywhere an expression can start, including
+  ///   statement positions.
+  ///
+  /// - `"class"`: in the body of a class or trait.
+  ///
+  /// - `"member"`: in the body of any class-like declaration,
+  ///   including interfaces and enums.
+  context: "file" | "top" | "statement" | "expression" | "class" | "member"
+  /// Extra text shown after the label.
+  detail?: string
+  /// Additional information shown when the snippet is selected.
+  info?: string
+}
+
+/// Facet used to register additional snippets, which are offered
+/// under the same context rules as the built-in ones. Usually
+/// provided through the `snippets` option to
+/// [`php`](#lang-php.php).
+export const phpSnippets = Facet.define<readonly PHPSnippet[], readonly PHPSnippet[]>({
+  combine: values => values.reduce((a, b) => a.concat(b), [])
+})
+
+const builtinSnippets: readonly PHPSnippet[] = [
+  {label: "function", detail: "definition", context: "statement",
+   template: "function ${name}(${params})\n{\n\t${}\n}"},
+  {label: "for", detail: "loop", context: "statement",
+   template: "for ($${index} = 0; $${index} < ${bound}; $${index}++) {\n\t${}\n}"},
+  {label: "foreach", detail: "loop", context: "statement",
+   template: "foreach (${collection} as ${name}) {\n\t${}\n}"},
+  {label: "do", detail: "loop", context: "statement",
+   template: "do {\n\t${}\n} while (${})"},
+  {label: "while", detail: "loop", context: "statement",
+   template: "while (${}) {\n\t${}\n}"},
+  {label: "try", detail: "/ catch block", context: "statement",
+   template: "try {\n\t${}\n} catch (${error}) {\n\t${}\n}"},
+  {label: "if", detail: "block", context: "statement",
+   template: "if (${}) {\n\t${}\n}"},
+  {label: "if", detail: "/ else block", context: "statement",
+   template: "if (${}) {\n\t${}\n} else {\n\t${}\n}"},
+  {label: "switch", detail: "statement", context: "statement",
+   template: "switch (${value}) {\n\tcase ${pattern}:\n\t\t${}\n\t\tbreak;\n\tdefault:\n\t\tbreak;\n}"},
+  {label: "class", detail: "definition", context: "top",
+   template: "class ${name}\n{\n\t${}\n}"},
+  {label: "interface", detail: "definition", context: "top",
+   template: "interface ${name}\n{\n\t${}\n}"},
+  {label: "trait", detail: "definition", context: "top",
+   template: "trait ${name}\n{\n\t${}\n}"},
+  {label: "enum", detail: "definition", context: "top",
+   template: "enum ${name}\n{\n\tcase ${case};\n}"},
+  {label: "enum", detail: "backed", context: "top",
+   template: "enum ${name}: ${string}\n{\n\tcase ${case} = ${value};\n}"},
+  {label: "namespace", detail: "declaration", context: "file",
+   template: "namespace ${name};\n\n${}"},
+  {label: "declare", detail: "strict_types", context: "file",
+   template: "declare(strict_types=1);\n${}"},
+  {label: "require", detail: "statement", context: "expression",
+   template: "require ${module}"},
+  {label: "require_once", detail: "statement", context: "expression",
+   template: "require_once ${module}"},
+  {label: "include", detail: "statement", context: "expression",
+   template: "include ${module}"},
+  {label: "include_once", detail: "statement", context: "expression",
+   template: "include_once ${module}"},
+  {label: "match", detail: "expression", context: "expression",
+   template: "match (${value}) {\n\t${pattern} => ${result},\n\tdefault => ${},\n}"},
+  {label: "fn", detail: "arrow function", context: "expression",
+   template: "fn(${params}) => ${}"},
+  {label: "function", detail: "closure with use", context: "expression",
+   template: "function (${params}) use (${vars}) {\n\t${}\n}"},
+  {label: "function", detail: "method", context: "class",
+   template: "public function ${name}(${params}): ${void}\n{\n\t${}\n}"},
+  {label: "__construct", detail: "with property promotion", context: "class",
+   template: "public function __construct(\n\tprivate ${type} $${name},\n) {\n\t${}\n}"},
+  {label: "getter", detail: "method", context: "class",
+   template: "public function get${Name}(): ${type}\n{\n\treturn $this->${name};\n}"},
+  {label: "setter", detail: "method", context: "class",
+   template: "public function set${Name}(${type} $${name}): void\n{\n\t$this->${name} = $${name};\n}"},
+  {label: "test", detail: "PHPUnit test method", context: "class",
+   template: "public function test${Name}(): void\n{\n\t${}\n}"}
+]
+
+const completionCache = new WeakMap<PHPSnippet, Completion>()
+
+function snippetCompletion(snippet: PHPSnippet) {
+  let found = completionCache.get(snippet)
+  if (!found) completionCache.set(snippet, found = snip(snippet.template, {
+    label: snippet.label,
+    detail: snippet.detail,
+    info: snippet.info,
+    type: "keyword"
+  }))
+  return found
+}
+
+const TopLevel = /^(Template|Program)$/, StatementLists = /^(Block|ColonBlock|CaseStatement|DefaultStatement)$/
+const ClassBodies = /^(DeclarationList|EnumBody)$/
+const ExpressionParents = new RegExp("^(Assignment|Update|Binary|Conditional|Unary|Parenthesized|Yield|Throw|Array|Include|Require|" +
+  "Sequence)Expression|ArgList|NamedArgument|SpreadArgument|ValueList|Pair|MatchArm|ReturnStatement|EchoStatement|" +
+  "PrintIntrinsic|ArrowFunction$")
+
+// Determine which kinds of snippets can be inserted at the given
+// position, by looking at the node that directly contains the
+// outermost syntax node starting there.
+function snippetContexts(state: EditorState, pos: number): readonly PHPSnippet["context"][] {
+  let node: SyntaxNode = syntaxTree(state).resolveInner(pos, 1), container = node
+  if (node.from == pos) {
+    while (node.parent && node.parent.from == pos && !ClassBodies.test(node.parent.name) &&
+           !TopLevel.test(node.parent.name) && !StatementLists.test(node.parent.name)) node = node.parent
+    if (!node.parent) return []
+    container = node.parent
+  }
+  let name = container.name
+  if (TopLevel.test(name)) return ["file", "top", "statement", "expression"]
+  if (name == "Block" && container.parent?.name == "NamespaceDefinition") return ["top", "statement", "expression"]
+  // Interfaces and enums don't have properties or constructors
+  if (ClassBodies.test(name))
+    return /^(ClassDeclaration|TraitDeclaration|NewExpression)$/.test(container.parent!.name) ? ["class", "member"] : ["member"]
+  if (StatementLists.test(name)) {
+    // The expression after `case` isn't a statement position
+    let colon = container.firstChild
+    while (colon && colon.name != ":" && colon.name != ";" && colon.name != "{") colon = colon.nextSibling
+    return colon && colon.to <= pos ? ["statement", "expression"] : ["expression"]
+  }
+  return ExpressionParents.test(name) ? ["expression"] : []
+}
+
+/// Completion source for snippets. Offers the built-in snippets,
+/// along with those registered with
+/// [`phpSnippets`](#lang-php.phpSnippets), but only those that fit
+/// the kind of position (top level, statement, expression, or class
+/// body) that the cursor is in.
+export function snippetCompletionSource(context: CompletionContext): CompletionResult | null {
+  let word = context.matchBefore(/\w*/)
+  if (!word || word.from == word.to && !context.explicit) return null
+  let contexts = snippetContexts(context.state, word.from)
+  if (!contexts.length) return null
+  let options = builtinSnippets.concat(context.state.facet(phpSnippets))
+    .filter(s => contexts.indexOf(s.context) > -1).map(snippetCompletion)
+  if (!options.length) return null
+  return {options, from: word.from, validFor: /^\w*$/}
+}
@@ -0,0 +1,22 @@
+import {Facet} from "@codemirror/state"
+
+/// Facet holding the PHP version (for example `"7.4"`) that the code
+/// in the editor targets. When set, built-in functions that aren't
+/// available in that version are left out of completion, and the
+/// [linter](#lang-php.phpLinter) reports syntax that the version
+/// doesn't support. Usually set through the `version` option to
+/// [`php`](#lang-php.php).
+export const phpVersion = Facet.define<string, string | null>({
+  combine: values => values.length ? values[0] : null
+})
+
+// Compare two version strings, returning a negative number when `a`
+// is the older one.
+export function compareVersions(a: string, b: string) {
+  let partsA = a.split("."), partsB = b.split(".")
+  for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+    let diff = (+partsA[i] || 0) - (+partsB[i] || 0)
+    if (diff) return diff
+  }
+  return 0
+}
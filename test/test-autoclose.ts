@@ -0,0 +1,51 @@
+import ist from "ist"
+import {EditorState, TransactionSpec} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {php} from "@codemirror/lang-php"
+
+// Type the given text at the `|` marker through the state's input
+// handlers, and return the resulting document with the cursor
+// marked.
+function type(doc: string, text: string, plain = true) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, selection: {anchor: cur}, extensions: php({plain})})
+  let view = {get state() { return state }, composing: false, dispatch(spec: TransactionSpec) { state = state.update(spec).state }}
+  let insert = () => state.update({changes: {from: cur, insert: text}, selection: {anchor: cur + text.length}})
+  if (!state.facet(EditorView.inputHandler).some(h => h(view as EditorView, cur, cur, text, insert)))
+    view.dispatch(insert())
+  let head = state.selection.main.head, result = state.doc.toString()
+  return result.slice(0, head) + "|" + result.slice(head)
+}
+
+describe("autoCloseBlocks", () => {
+  it("closes alternative syntax blocks", () => {
+    ist(type("if ($a)|", ":"), "if ($a):|\nendif;")
+    ist(type("  foreach ($list as $item)|", ":"), "  foreach ($list as $item):|\n  endforeach;")
+    ist(type("WHILE (f($x))|", ":"), "WHILE (f($x)):|\nendwhile;")
+  })
+
+  it("doesn't close blocks that are already closed", () => {
+    ist(type("if ($a)|\n  echo 1;", ":"), "if ($a):|\n  echo 1;")
+    ist(type("if ($a)|\nelse:\nendif;", ":"), "if ($a):|\nelse:\nendif;")
+  })
+
+  it("only closes blocks after a complete condition", () => {
+    ist(type("if ($a) && ($b)|", ":"), "if ($a) && ($b):|")
+    ist(type("$x = $a ? $b |", ":"), "$x = $a ? $b :|")
+  })
+
+  it("doesn't close blocks in strings or comments", () => {
+    ist(type('$s = "\nif ($a)|\n";', ":"), '$s = "\nif ($a):|\n";')
+    ist(type("/*\nif ($a)|\n*/", ":"), "/*\nif ($a):|\n*/")
+  })
+
+  it("closes PHP tags in templates", () => {
+    ist(type("<p><?ph|</p>", "p", false), "<p><?php | ?></p>")
+  })
+
+  it("doesn't close PHP tags that are already closed or at the start of a file", () => {
+    ist(type("<p><?ph| echo 1; ?></p>", "p", false), "<p><?php| echo 1; ?></p>")
+    ist(type("<?ph|", "p", false), "<?php|")
+  })
+})
@@ -0,0 +1,216 @@
+import ist from "ist"
+import {EditorState, TransactionSpec} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {CompletionContext, CompletionResult, CompletionSource} from "@codemirror/autocomplete"
+import {php, globalCompletion, localCompletionSource, memberCompletionSource, namespaceCompletionSource,
+        stringCompletionSource} from "@codemirror/lang-php"
+
+function get(source: CompletionSource, doc: string, conf: {explicit?: boolean, version?: string} = {}) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, selection: {anchor: cur}, extensions: [php({plain: true, version: conf.version})]})
+  return source(new CompletionContext(state, cur, !!conf.explicit)) as CompletionResult | null
+}
+
+function str(result: CompletionResult | null) {
+  return !result ? "" : result.options.map(o => o.label).sort().join(", ")
+}
+
+describe("localCompletionSource", () => {
+  let local = (doc: string, conf?: {explicit?: boolean}) => str(get(localCompletionSource, doc, conf))
+
+  it("completes parameters and local variables", () => {
+    ist(local("function f($a) { $b = 1; $| }"), "$a, $b")
+  })
+
+  it("completes foreach and catch variables", () => {
+    ist(local("foreach ($list as $key => $value) { $| }"), "$key, $value")
+    ist(local("try {} catch (Exception $e) { $| }"), "$e")
+  })
+
+  it("completes destructured variables", () => {
+    ist(local("[$a, [$b, 'k' => $c]] = $x; list($d) = $y; $|"), "$a, $b, $c, $d")
+  })
+
+  it("doesn't complete top-level variables inside functions", () => {
+    ist(local("$top = 1; function f() { $| }"), "")
+  })
+
+  it("only completes the variables a closure imports with use", () => {
+    ist(local("$outer = 1; $other = 2; $f = function ($p) use ($outer) { $| };"), "$outer, $p")
+  })
+
+  it("completes variables from the enclosing scope in arrow functions", () => {
+    ist(local("function g($a) { $b = 2; $f = fn($x) => $|; }"), "$a, $b, $f, $x")
+  })
+
+  it("completes $this in methods", () => {
+    ist(local("class A { function m() { $| } }"), "$this")
+    ist(local("class A { function m() { $f = fn() => $|; } }"), "$f, $this")
+    ist(local("class A { function m() { $f = function() { $| }; } }"), "$this")
+  })
+
+  it("doesn't complete $this in static methods or nested functions", () => {
+    ist(local("class A { static function s() { $| } }"), "")
+    ist(local("class A { function m() { $f = static fn() => $|; } }"), "$f")
+    ist(local("class A { function m() { function inner() { $| } } }"), "")
+  })
+
+  it("doesn't complete in comments or strings", () => {
+    ist(get(localCompletionSource, "function f($a) { /* $| */ }"), null)
+    ist(get(localCompletionSource, "function f($a) { echo '$|'; }"), null)
+  })
+
+  it("only completes variables in explicit completion outside words", () => {
+    ist(get(localCompletionSource, "$a = 1; echo |"), null)
+    ist(local("$a = 1; echo |", {explicit: true}), "$a")
+  })
+})
+
+describe("memberCompletionSource", () => {
+  let member = (doc: string) => str(get(memberCompletionSource, doc))
+  let cls = "class A { public $pub; private $priv; protected $prot; const K = 1; public static $st; " +
+    "function __construct() {} function m() {} static function s() {} private function pm() {} } "
+
+  it("completes the public instance members of typed variables", () => {
+    ist(member(cls + "$a = new A; $a->|"), "m, pub")
+    ist(member(cls + "function f(A $a) { $a->| }"), "m, pub")
+  })
+
+  it("completes static members and constants", () => {
+    ist(member(cls + "A::|"), "$st, K, class, s")
+  })
+
+  it("includes private members on $this", () => {
+    ist(member("class A { function m() { $this->| } private $p; }"), "m, p")
+  })
+
+  it("includes inherited protected members", () => {
+    ist(member(cls + "class B extends A { function x() { $this->| } }"), "m, prot, pub, x")
+  })
+
+  it("only completes constructors through parent::", () => {
+    ist(member(cls + "class B extends A { function __construct() { parent::| } }"), "$st, K, __construct, class, m, s")
+  })
+})
+
+describe("globalCompletion", () => {
+  let find = (doc: string, label: string, version?: string) => {
+    let result = get(globalCompletion, doc, {version})
+    return result && result.options.find(o => o.label == label)
+  }
+
+  it("completes functions, superglobals, and keywords", () => {
+    ist(find("str|", "strlen")!.detail, "(string $string): int")
+    ist(find("$_SE|", "$_SERVER"))
+    ist(find("ech|", "echo"))
+  })
+
+  it("doesn't complete after member access", () => {
+    ist(get(globalCompletion, "$a->str|"), null)
+  })
+
+  it("leaves out functions that the target version doesn't have", () => {
+    ist(find("str_c|", "str_contains"))
+    ist(find("str_c|", "str_contains", "8.0"))
+    ist(find("str_c|", "str_contains", "7.4"), undefined)
+    ist(find("eac|", "each", "7.4"))
+    ist(find("eac|", "each", "8.0"), undefined)
+  })
+
+  it("marks deprecated functions", () => {
+    ist(find("utf8|", "utf8_encode", "8.1")!.boost, undefined)
+    let deprecated = find("utf8|", "utf8_encode", "8.2")!
+    ist(deprecated.boost, -1)
+    ist(/deprecated/.test(deprecated.detail!))
+  })
+})
+
+// Apply the completion with the given label (and detail, if given)
+// from an explicit completion at the `|` marker, and return the
+// resulting document.
+function pick(source: CompletionSource, doc: string, label: string, detail?: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, selection: {anchor: cur}, extensions: [php({plain: true})]})
+  let result = source(new CompletionContext(state, cur, true)) as CompletionResult
+  let option = result.options.find(o => o.label == label && (detail == null || o.detail == detail))!
+  let view = {get state() { return state }, dispatch(spec: TransactionSpec) { state = state.update(spec).state }}
+  if (typeof option.apply == "function") option.apply(view as EditorView, option, result.from, cur)
+  else view.dispatch({changes: {from: result.from, to: cur, insert: option.apply || option.label}})
+  return state.doc.toString()
+}
+
+describe("namespaceCompletionSource", () => {
+  let ns = (doc: string) => str(get(namespaceCompletionSource, doc))
+  let models = "namespace App\\Models;\nclass User {}\nfunction helper() {}\n\n"
+
+  it("completes the names in a namespace after a prefix", () => {
+    ist(ns(models + "namespace App\\Http;\nnew \\App\\Models\\|"), "User, helper")
+    ist(ns(models + "namespace App\\Http;\nnew \\App\\|"), "Models")
+  })
+
+  it("completes imported names by their alias", () => {
+    let result = get(namespaceCompletionSource, models + "namespace Main;\nuse App\\Models\\User as Person;\nnew P|")!
+    ist(result.options.some(o => o.label == "Person" && o.detail == "App\\Models\\User"))
+  })
+
+  it("completes fully qualified names in use statements", () => {
+    ist(pick(namespaceCompletionSource, models + "namespace Main;\nuse App\\|;", "App\\Models\\User"),
+        models + "namespace Main;\nuse App\\Models\\User;")
+  })
+
+  it("adds a use statement when completing a name from another namespace", () => {
+    ist(pick(namespaceCompletionSource, models + "namespace App\\Http;\n\nnew Us|", "User"),
+        models + "namespace App\\Http;\n\nuse App\\Models\\User;\n\nnew User")
+    ist(pick(namespaceCompletionSource, models + "namespace App\\Http;\n\nuse Foo\\Bar;\n\nnew Us|", "User"),
+        models + "namespace App\\Http;\n\nuse App\\Models\\User;\nuse Foo\\Bar;\n\nnew User")
+    ist(pick(namespaceCompletionSource, models + "namespace App\\Http;\n\nhel|", "helper"),
+        models + "namespace App\\Http;\n\nuse function App\\Models\\helper;\n\nhelper")
+  })
+
+  it("inserts the qualified name when an import would conflict", () => {
+    ist(pick(namespaceCompletionSource, "namespace A;\nclass User {}\n\nnamespace B;\nclass User {}\nnew Us|", "User", "A"),
+        "namespace A;\nclass User {}\n\nnamespace B;\nclass User {}\nnew \\A\\User")
+  })
+})
+
+describe("stringCompletionSource", () => {
+  let string = (doc: string) => str(get(stringCompletionSource, doc))
+
+  it("completes variables in double-quoted strings", () => {
+    ist(string('function f($user) { $name = 1; echo "Hello $|"; }'), "$name, $user")
+  })
+
+  it("completes variables in heredocs", () => {
+    ist(string("$n = 1; $s = <<<EOT\nHello $|\nEOT;"), "$n, $s")
+  })
+
+  it("doesn't complete in single-quoted strings or nowdocs", () => {
+    ist(get(stringCompletionSource, "$n = 1; echo 'Hello $|';"), null)
+    ist(get(stringCompletionSource, "$n = 1; $s = <<<'EOT'\nHello $|\nEOT;"), null)
+  })
+
+  it("completes properties in interpolated member access", () => {
+    let cls = "class User { public $name; private $secret; function greet() {} } $u = new User; "
+    ist(string(cls + 'echo "Hi $u->|";'), "name")
+    ist(str(get(memberCompletionSource, cls + 'echo "Hi $u->n|";')), "name")
+    ist(str(get(memberCompletionSource, cls + 'echo "Hi {$u->g|}";')), "greet, name")
+  })
+
+  it("completes the keys of arrays", () => {
+    let arr = '$row = ["id" => 1, "title" => "x"]; $row["extra"] = 2; '
+    ist(string(arr + "echo $row['|'];"), "extra, id, title")
+    ist(string(arr + 'echo "$row[|";'), "extra, id, title")
+    ist(string(arr + "echo \"{$row['|\";"), "extra, id, title")
+  })
+
+  it("only uses array keys from the variable's scope", () => {
+    ist(get(stringCompletionSource, "$row = ['id' => 1]; function f($row) { echo $row['|']; }"), null)
+  })
+
+  it("completes $_SERVER keys", () => {
+    let result = get(stringCompletionSource, "echo $_SERVER['|'];")
+    ist(result!.options.some(o => o.label == "REQUEST_METHOD"))
+  })
+})
@@ -0,0 +1,89 @@
+import ist from "ist"
+import {EditorState, TransactionSpec} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {syntaxTree} from "@codemirror/language"
+import {CompletionContext, CompletionResult} from "@codemirror/autocomplete"
+import {highlightTree, classHighlighter} from "@lezer/highlight"
+import {php, phpDocCompletionSource} from "@codemirror/lang-php"
+
+function state(doc: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  return {cur, state: EditorState.create({doc, selection: {anchor: cur}, extensions: php({plain: true})})}
+}
+
+// List the highlighted tokens inside the comment at the start of
+// the document.
+function tags(doc: string) {
+  let {state: st} = state(doc), tokens: string[] = [], end = doc.indexOf("*/")
+  highlightTree(syntaxTree(st), classHighlighter, (from, to, cls) => {
+    if (to <= end && cls != "tok-comment") tokens.push(cls.replace("tok-", "") + " " + doc.slice(from, to))
+  })
+  return tokens.join(", ")
+}
+
+function complete(doc: string) {
+  let {cur, state: st} = state(doc)
+  let result = phpDocCompletionSource(new CompletionContext(st, cur, false)) as CompletionResult | null
+  return result ? result.options.map(o => o.label) : null
+}
+
+// Type `*` at the `|` marker through the state's input handlers, and
+// return the resulting document with the cursor marked.
+function type(doc: string) {
+  let {cur, state: st} = state(doc)
+  let view = {get state() { return st }, composing: false, dispatch(spec: TransactionSpec) { st = st.update(spec).state }}
+  let insert = () => st.update({changes: {from: cur, insert: "*"}, selection: {anchor: cur + 1}})
+  if (!st.facet(EditorView.inputHandler).some(h => h(view as EditorView, cur, cur, "*", insert)))
+    view.dispatch(insert())
+  let head = st.selection.main.head, result = st.doc.toString()
+  return result.slice(0, head) + "|" + result.slice(head)
+}
+
+describe("PHPDoc highlighting", () => {
+  it("highlights tags, types, and variables in doc comments", () => {
+    ist(tags("/** Sum. @param int[] $xs @return int */ function f() {}"),
+        "keyword @param, typeName int[], variableName $xs, keyword @return, typeName int")
+  })
+
+  it("leaves plain block comments alone", () => {
+    ist(tags("/* @param int $x */ $y = 1;"), "")
+  })
+})
+
+describe("phpDocCompletionSource", () => {
+  it("completes tag names", () => {
+    let options = complete("/** @par| */ function f() {}")!
+    ist(options.indexOf("@param"), -1, ">")
+    ist(options.indexOf("@return"), -1, ">")
+  })
+
+  it("completes the documented function's parameters", () => {
+    ist(complete("/** @param int $| */ function f(int $a, $b) {}")!.join(" "), "$a $b")
+  })
+
+  it("doesn't complete outside doc comments", () => {
+    ist(complete("// @par| "), null)
+    ist(complete("/* @par| */"), null)
+  })
+})
+
+describe("autoDocBlock", () => {
+  it("generates doc comments for functions", () => {
+    ist(type("/*|\nfunction f(int $a, ?string $b = null): bool {}"),
+        "/**\n * |\n *\n * @param int $a\n * @param ?string $b\n * @return bool\n */\nfunction f(int $a, ?string $b = null): bool {}")
+  })
+
+  it("generates doc comments for properties", () => {
+    ist(type("class C {\n    /*|\n    private array $items;\n}"),
+        "class C {\n    /**\n     * |\n     *\n     * @var array\n     */\n    private array $items;\n}")
+  })
+
+  it("generates doc comments for classes", () => {
+    ist(type("/*|\nclass C {}"), "/**\n * |\n */\nclass C {}")
+  })
+
+  it("does nothing when no declaration follows", () => {
+    ist(type("/*|\n\necho 1;"), "/**|\n\necho 1;")
+  })
+})
@@ -0,0 +1,56 @@
+import ist from "ist"
+import {EditorState, TransactionSpec} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {php, formatPHP, PHPFormatConfig} from "@codemirror/lang-php"
+
+function format(doc: string, config: PHPFormatConfig = {}) {
+  let state = EditorState.create({doc, extensions: php()})
+  let view = {get state() { return state }, dispatch(spec: TransactionSpec) { state = state.update(spec).state }}
+  formatPHP(config)(view as EditorView)
+  return state.doc.toString()
+}
+
+describe("formatPHP", () => {
+  it("places braces and normalizes spacing", () => {
+    ist(format("<?php\nfunction f($a,$b){\nif($a==$b){return 1;}\n}\n"),
+        "<?php\nfunction f($a, $b)\n{\n    if ($a == $b) {\n        return 1;\n    }\n}\n")
+  })
+
+  it("leaves template text alone", () => {
+    let template = "<ul>\n  <?php foreach ($items as $item): ?>\n    <li><?= $item ?></li>\n  <?php endforeach; ?>\n</ul>\n"
+    ist(format(template + "<?php\nif ($a) {\necho 1;\n}\n"), template + "<?php\nif ($a) {\n    echo 1;\n}\n")
+  })
+
+  it("indents attributes and multi-line arrays", () => {
+    ist(format("<?php\nclass A {\n#[Attr]\npublic function m() {\n$x = [\n1,\n2,\n];\n}\n}\n"),
+        "<?php\nclass A\n{\n    #[Attr]\n    public function m()\n    {\n        $x = [\n            1,\n            2,\n        ];\n    }\n}\n")
+  })
+
+  it("spaces compound assignments", () => {
+    ist(format("<?php\n$x+=1;\n$a  ??=  [];\n$i ++;\n"), "<?php\n$x += 1;\n$a ??= [];\n$i++;\n")
+  })
+
+  it("leaves heredoc bodies alone", () => {
+    let heredoc = "$q = <<<EOT\n    a {$x}\n\n      b\n    EOT;\n"
+    ist(format("<?php\nif ($a) {\n" + heredoc + "}\n"), "<?php\nif ($a) {\n    " + heredoc + "}\n")
+    let nowdoc = "$q = <<<'EOT'\n  raw\nEOT;\n"
+    ist(format("<?php\nif ($a) {\n" + nowdoc + "}\n"), "<?php\nif ($a) {\n    " + nowdoc + "}\n")
+  })
+
+  it("splits colon blocks", () => {
+    ist(format("<?php\nif ($a): echo 1; endif;\n"), "<?php\nif ($a):\n    echo 1;\nendif;\n")
+  })
+
+  it("sorts use imports into groups", () => {
+    ist(format("<?php\nuse Foo\\Zed;\nuse function foo\\bar;\nuse Foo\\Abc;\nuse const Foo\\X;\n"),
+        "<?php\nuse Foo\\Abc;\nuse Foo\\Zed;\n\nuse function foo\\bar;\n\nuse const Foo\\X;\n")
+  })
+
+  it("can indent with tabs", () => {
+    ist(format("<?php\nif ($a) {\necho 1;\n}\n", {indent: "\t"}), "<?php\nif ($a) {\n\techo 1;\n}\n")
+  })
+
+  it("leaves code with syntax errors alone", () => {
+    ist(format("<?php\nfunction f( {\n"), "<?php\nfunction f( {\n")
+  })
+})
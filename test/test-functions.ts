@@ -0,0 +1,67 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {php, builtinFunction, builtinFunctions, signatureAt} from "@codemirror/lang-php"
+
+// Describe the signature help at the `|` marker as the function name,
+// its parameter names, and the active parameter (marked with `*`).
+function sig(doc: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, extensions: php({plain: true})})
+  let found = signatureAt(state, cur)
+  if (!found) return null
+  return found.signature.name + "(" + found.signature.params.map((p, i) => (i == found!.active ? "*" : "") + p.name).join(", ") + ")"
+}
+
+describe("builtinFunction", () => {
+  it("looks up functions case-insensitively", () => {
+    ist(builtinFunction("STRLEN")!.name, "strlen")
+    ist(builtinFunction("no_such_function"), null)
+  })
+
+  it("describes parameters and return types", () => {
+    let f = builtinFunction("preg_match")!
+    ist(f.extension, "pcre")
+    ist(f.returns, "int|false")
+    ist(f.params.map(p => p.name).join(" "), "pattern subject matches flags offset")
+    ist(f.params[2].byRef)
+    ist(f.params[3].default, "0")
+  })
+
+  it("covers commonly bundled extensions", () => {
+    for (let name of ["max", "round", "intdiv", "password_hash", "preg_replace", "mb_strlen", "ctype_digit", "iconv", "spl_object_id", "define"])
+      ist(builtinFunction(name))
+    ist(builtinFunction("spl_object_id")!.since, "7.2")
+  })
+
+  it("keys the function list by lower-case name", () => {
+    for (let [key, f] of builtinFunctions()) ist(key, f.name.toLowerCase())
+  })
+})
+
+describe("signatureAt", () => {
+  it("finds the active parameter", () => {
+    ist(sig("strlen(|"), "strlen(*string)")
+    ist(sig('str_replace("a", |'), "str_replace(search, *replace, subject, count)")
+  })
+
+  it("handles named arguments", () => {
+    ist(sig("str_replace(subject: |"), "str_replace(search, replace, *subject, count)")
+  })
+
+  it("maps extra arguments to variadic parameters", () => {
+    ist(sig("max(1, 2, 3|)"), "max(value, *values)")
+  })
+
+  it("finds functions defined in the document", () => {
+    ist(sig("function g($a, ...$rest) {} g(1, 2, |3)"), "g(a, *rest)")
+  })
+
+  it("uses the innermost call", () => {
+    ist(sig("array_map(fn($x) => strlen(|), $a)"), "strlen(*string)")
+  })
+
+  it("returns null outside of argument lists", () => {
+    ist(sig("f(); |"), null)
+  })
+})
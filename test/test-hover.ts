@@ -0,0 +1,56 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {php, hoverInfo} from "@codemirror/lang-php"
+
+// Describe the hover information for the identifier at the `|`
+// marker as its text, declaration, and description.
+function hover(doc: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, extensions: php({plain: true})})
+  let info = hoverInfo(state, cur)
+  if (!info) return null
+  return doc.slice(info.from, info.to) + ": " + info.declaration + (info.description ? " -- " + info.description : "")
+}
+
+describe("hoverInfo", () => {
+  it("describes built-in functions", () => {
+    ist(hover('|strlen("a");'), "strlen: function strlen(string $string): int -- Get string length (Core)")
+  })
+
+  it("describes functions defined in the document", () => {
+    ist(hover("/** Add numbers. */ function add(int $a, int $b): int {} |add(1, 2);"),
+        "add: function add(int $a, int $b): int -- Add numbers.")
+  })
+
+  it("describes constants", () => {
+    ist(hover("|PHP_EOL;"), "PHP_EOL: const string PHP_EOL -- The correct end of line symbol for this platform")
+    ist(hover("namespace N; const MAX = 3; echo |MAX;"), "MAX: const N\\MAX = 3")
+  })
+
+  it("falls back to global constants in namespaces", () => {
+    ist(hover("namespace N; echo |PHP_EOL;"), "PHP_EOL: const string PHP_EOL -- The correct end of line symbol for this platform")
+  })
+
+  it("describes classes", () => {
+    ist(hover("/** A box. */ class Box extends Base implements Countable {} new |Box;"),
+        "Box: class Box extends Base implements Countable -- A box.")
+  })
+
+  it("describes class members", () => {
+    let cls = "class C { const K = 1; /** The id. */ public int $id; function m(int $x): int {} static function s() {} } $c = new C; "
+    ist(hover(cls + "$c->|id;"), "id: public int C::$id -- The id.")
+    ist(hover(cls + "$c->|m(1);"), "m: public function C::m(int $x): int")
+    ist(hover(cls + "C::|s();"), "s: public static function C::s()")
+    ist(hover(cls + "C::|K;"), "K: const C::K")
+  })
+
+  it("describes superglobals", () => {
+    ist(hover("echo |$_GET;"), "$_GET: array $_GET -- Variables passed to the script via the URL query string")
+  })
+
+  it("returns null for other tokens", () => {
+    ist(hover("echo |$local;"), null)
+    ist(hover("echo 1 |+ 2;"), null)
+  })
+})
@@ -0,0 +1,54 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {syntaxTree, getIndentation} from "@codemirror/language"
+import {htmlLanguage} from "@codemirror/lang-html"
+import {php, PHPInjection} from "@codemirror/lang-php"
+
+const injection: PHPInjection = {
+  heredoc: {HTML: htmlLanguage},
+  calls: [{name: "render", language: htmlLanguage}, {name: "->html", argument: 1, language: htmlLanguage}]
+}
+
+// Return the name of the innermost node at the start of each of the
+// given snippets of the document.
+function nodes(doc: string, ...at: string[]) {
+  let state = EditorState.create({doc, extensions: php({plain: true, injection})})
+  return at.map(str => syntaxTree(state).resolveInner(doc.indexOf(str), 1).name).join(" ")
+}
+
+describe("PHPInjection", () => {
+  it("parses heredocs by their label", () => {
+    ist(nodes("$s = <<<HTML\n<b>x</b>\nHTML;", "<b", "b>"), "StartTag TagName")
+    ist(nodes("$s = <<<html\n<b>x</b>\nhtml;", "<b"), "StartTag")
+    ist(nodes("$s = <<<SQL\n<b>x</b>\nSQL;", "<b"), "HeredocString")
+  })
+
+  it("leaves interpolated expressions out of heredocs", () => {
+    ist(nodes("$s = <<<HTML\n<b>{$user->name}</b> $x <i>\nHTML;", "<b", "user", "$x", "<i"),
+        "StartTag HeredocString HeredocString StartTag")
+  })
+
+  it("parses all of a nowdoc", () => {
+    ist(nodes("$s = <<<'HTML'\n<b>$x</b>\nHTML;", "<b", "$x"), "StartTag Text")
+  })
+
+  it("parses the arguments of configured calls", () => {
+    ist(nodes('render("<p>x</p>"); other("<p>y</p>");', "<p>x", "<p>y"), "StartTag String")
+    ist(nodes('$o->html(1, "<em>z</em>"); $o->html("<em>w</em>");', "<em>z", "<em>w"), "StartTag String")
+  })
+})
+
+describe("string indentation", () => {
+  function indent(doc: string) {
+    let cur = doc.indexOf("|")
+    doc = doc.slice(0, cur) + doc.slice(cur + 1)
+    return getIndentation(EditorState.create({doc, extensions: php({plain: true})}), cur)
+  }
+
+  it("doesn't indent lines inside strings and comments", () => {
+    ist(indent("function f() {\n  $s = <<<EOT\n  a\n|  b\n  EOT;\n}"), null)
+    ist(indent('function f() {\n  $s = "a\n|b";\n}'), null)
+    ist(indent("function f() {\n  /* a\n|b */\n}"), null)
+    ist(indent("function f() {\n|x;\n}"), 2)
+  })
+})
@@ -0,0 +1,79 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {php, phpLinter, PHPLintConfig} from "@codemirror/lang-php"
+
+function lint(doc: string, config: PHPLintConfig = {}, version?: string) {
+  let state = EditorState.create({doc, extensions: php({plain: true, version})})
+  return phpLinter(config)({state} as EditorView)
+    .map(d => `${d.severity} ${d.message} [${doc.slice(d.from, d.to)}]`).join("\n")
+}
+
+describe("phpLinter", () => {
+  it("reports syntax errors", () => {
+    ist(lint("$a = ;"), "error Unexpected ';' [;]")
+    ist(lint("function f( {"), "error Expected ')' []")
+  })
+
+  it("warns about undefined variables", () => {
+    ist(lint("function f() { echo $x; }"), "warning Variable '$x' might not be defined [$x]")
+    ist(lint("function f($x) { echo $x; }"), "")
+  })
+
+  it("sees variables interpolated in heredocs", () => {
+    ist(lint("function f() {\n  $table = 't';\n  return <<<SQL\n  SELECT * FROM $table WHERE {$missing}\n  SQL;\n}"),
+        "warning Variable '$missing' might not be defined [$missing]")
+    ist(lint("function f() {\n  return <<<'SQL'\n  SELECT $table\n  SQL;\n}"), "")
+  })
+
+  it("doesn't warn about the left side of ??", () => {
+    ist(lint("function f() { return $x ?? 1; }"), "")
+    ist(lint("function f() { return $x['k'] ?? $y; }"), "warning Variable '$y' might not be defined [$y]")
+  })
+
+  it("treats taking a reference as defining a variable", () => {
+    ist(lint("function f() { $ref = &$newvar; return $ref; }"), "")
+  })
+
+  it("warns about unused variables", () => {
+    ist(lint("function f() { $x = 1; }"), "warning Variable '$x' is assigned but never used [$x]")
+    ist(lint("function f() { $x = 1; return fn() => $x; }"), "")
+  })
+
+  it("warns about unused imports", () => {
+    ist(lint("use Foo\\Bar;\nuse Foo\\Baz;\nnew Bar;"), "warning Unused import 'Foo\\Baz' [use Foo\\Baz;]")
+  })
+
+  it("reports duplicate declarations", () => {
+    ist(lint("function a() {}\nfunction A() {}"), "error Function 'A' is already declared [A]")
+    ist(lint("class C { function m() {} function M() {} }"), "error Method 'M' is already declared in this class [M]")
+  })
+
+  it("reports $this outside of methods", () => {
+    ist(lint("echo $this;"), "error '$this' can't be used outside of a class [$this]")
+    ist(lint("class C { static function s() { return $this; } }"), "error '$this' can't be used in a static method [$this]")
+    ist(lint("class C { function m() { return fn() => $this; } }"), "")
+  })
+
+  it("reports break and continue outside of loops", () => {
+    ist(lint("break;"), "error 'break' outside of a loop or switch [break;]")
+    ist(lint("while (1) { break 2; }"), "error Can't break 2 levels [break 2;]")
+    ist(lint("foreach ($a as $b) { switch ($b) { case 1: continue 2; } }"), "")
+  })
+
+  it("reports returning a value from a void function", () => {
+    ist(lint("function f(): void { return 1; }"), "error A void function must not return a value [return 1;]")
+    ist(lint("function f(): void { return; }"), "")
+  })
+
+  it("reports syntax from newer PHP versions", () => {
+    ist(lint("$y = match (1) { default => 2 };", {}, "7.4"),
+        "error Match expressions are only available in PHP 8.0 and up [match]")
+    ist(lint("$y = match (1) { default => 2 };", {}, "8.0"), "")
+  })
+
+  it("can disable checks", () => {
+    ist(lint("function f() { echo $x; $y = 1; }", {undefinedVariables: false, unusedVariables: false}), "")
+    ist(lint("$y = match (1) { default => 2 };", {versionSyntax: false}, "7.4"), "")
+  })
+})
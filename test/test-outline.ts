@@ -0,0 +1,62 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {php, documentOutline, outlineField, OutlineEntry} from "@codemirror/lang-php"
+
+// Render outline entries as kind, visibility, modifiers, and name,
+// with their children in braces.
+function show(entries: readonly OutlineEntry[]): string {
+  return entries.map(e => e.kind + " " + (e.visibility ? e.visibility + " " : "") + e.modifiers.map(m => m + " ").join("") +
+                     e.name + (e.children.length ? " {" + show(e.children) + "}" : "")).join(", ")
+}
+
+function outline(doc: string, plain = true) {
+  return show(documentOutline(EditorState.create({doc, extensions: php({plain})})))
+}
+
+describe("documentOutline", () => {
+  it("lists classes with their members", () => {
+    ist(outline("interface I { function m(); } enum E: string { case A = 'a'; } trait T {} class C extends B { const K = 1; public $p; }"),
+        "interface I {method public m}, enum E {case A}, trait T, class C {constant public K, property public p}")
+  })
+
+  it("includes top-level functions but not nested ones", () => {
+    ist(outline("function f() { function inner() {} } $g = function() {};"), "function f")
+  })
+
+  it("records visibility and modifiers", () => {
+    ist(outline("abstract class C { protected static $p; final public function m() {} abstract protected function a(); }"),
+        "class abstract C {property protected static p, method public final m, method protected abstract a}")
+  })
+
+  it("includes promoted constructor properties", () => {
+    ist(outline("class C { function __construct(private readonly int $id, $plain) {} }"),
+        "class C {method public __construct, property private readonly id}")
+  })
+
+  it("groups declarations by namespace", () => {
+    ist(outline("namespace A; function f() {}\n\nnamespace B\\C; class D {}"), "namespace A {function f}, namespace B\\C {class D}")
+    ist(outline("namespace A { function f() {} } namespace { function g() {} }"), "namespace A {function f}, namespace  {function g}")
+  })
+
+  it("covers unbraced namespaces up to the next namespace", () => {
+    let doc = "namespace A; function f() {}\n\nnamespace B;"
+    let [a] = documentOutline(EditorState.create({doc, extensions: php({plain: true})}))
+    ist(doc.slice(a.from, a.to), "namespace A; function f() {}")
+    ist(doc.slice(a.nameFrom, a.nameTo), "A")
+  })
+
+  it("only looks at code in templates", () => {
+    ist(outline("<h1>function no() {}</h1><?php function f() {} ?><p></p><?php class C {}", false), "function f, class C")
+  })
+})
+
+describe("outlineField", () => {
+  it("maps positions through changes", () => {
+    let doc = "class C { function m() {} }"
+    let state = EditorState.create({doc, extensions: [php({plain: true}), outlineField]})
+    state = state.update({changes: {from: 0, insert: "\n\n"}}).state
+    let [cls] = state.field(outlineField)
+    ist(state.sliceDoc(cls.from, cls.to), doc)
+    ist(state.sliceDoc(cls.children[0].nameFrom, cls.children[0].nameTo), "m")
+  })
+})
@@ -0,0 +1,59 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {CompletionContext, CompletionResult, CompletionSource} from "@codemirror/autocomplete"
+import {php, indexDocument, projectIndex, ProjectSymbols, memberCompletionSource, namespaceCompletionSource,
+        signatureAt} from "@codemirror/lang-php"
+
+const lib = indexDocument("<?php\nnamespace Lib;\nconst LIMIT = 10;\nfunction helper(int $n): string {}\n" +
+                          "class Box { public $item; private $secret; function open() {} }\n")
+
+function state(doc: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  return {cur, state: EditorState.create({doc, selection: {anchor: cur}, extensions: [php({plain: true}), projectIndex.of(lib)]})}
+}
+
+function complete(source: CompletionSource, doc: string) {
+  let {cur, state: st} = state(doc)
+  let result = source(new CompletionContext(st, cur, true)) as CompletionResult | null
+  return result ? result.options : []
+}
+
+describe("indexDocument", () => {
+  it("collects the symbols defined in a document", () => {
+    ist(lib.classes!.map(c => c.name).join(), "Lib\\Box")
+    ist(lib.classes![0].members.map(m => m.name).join(), "item,secret,open")
+    ist(lib.functions!.map(f => f.name + ":" + f.returns).join(), "Lib\\helper:string")
+    ist(lib.constants!.map(c => c.name + "=" + c.value).join(), "Lib\\LIMIT=10")
+    ist(lib.namespaces!.join(), "Lib")
+  })
+
+  it("only indexes code in templates", () => {
+    ist(indexDocument("function notCode() {} <?php function code() {}").functions!.map(f => f.name).join(), "code")
+    ist(indexDocument("function code() {}", {plain: true}).functions!.map(f => f.name).join(), "code")
+  })
+})
+
+describe("projectIndex", () => {
+  it("combines indices and derives their namespaces", () => {
+    let symbols = new ProjectSymbols([lib, {classes: [{name: "A\\B\\C", kind: "class", parents: [], interfaces: [], traits: [], members: []}]}])
+    ist(symbols.classes.has("lib\\box"))
+    ist(symbols.classes.has("a\\b\\c"))
+    ist(symbols.namespaces.slice().sort().join(" "), "A A\\B Lib")
+  })
+
+  it("makes indexed names available to completion", () => {
+    let options = complete(namespaceCompletionSource, "\\Lib\\|")
+    ist(options.map(o => o.label).sort().join(), "Box,LIMIT,helper")
+    ist(complete(namespaceCompletionSource, "namespace Lib; new B|").some(o => o.label == "Box"))
+  })
+
+  it("makes indexed classes available to member completion", () => {
+    ist(complete(memberCompletionSource, "use Lib\\Box; function f(Box $b) { $b->| }").map(o => o.label).join(), "item,open")
+  })
+
+  it("makes indexed functions available to signature help", () => {
+    let {cur, state: st} = state("\\Lib\\helper(|")
+    ist(signatureAt(st, cur)!.signature.name, "Lib\\helper")
+  })
+})
@@ -0,0 +1,85 @@
+import ist from "ist"
+import {EditorState} from "@codemirror/state"
+import {php, findReferences} from "@codemirror/lang-php"
+
+// Find the references to the symbol at the `|` marker, and return
+// the document with those references wrapped in brackets, and the
+// definition prefixed with `*`.
+function refs(doc: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, extensions: php({plain: true})})
+  let found = findReferences(state, cur)
+  if (!found) return null
+  for (let {from, to} of found.references.slice().reverse()) {
+    let def = found.definition && found.definition.from == from
+    doc = doc.slice(0, from) + (def ? "*[" : "[") + doc.slice(from, to) + "]" + doc.slice(to)
+  }
+  return doc
+}
+
+// Rename the symbol at the `|` marker the way `renameSymbol` does,
+// by replacing all its references.
+function rename(doc: string, name: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, extensions: php({plain: true})})
+  let found = findReferences(state, cur)!
+  return state.update({changes: found.references.map(({from, to}) => ({from, to, insert: name}))}).state.doc.toString()
+}
+
+describe("findReferences", () => {
+  it("finds the variables in a function scope", () => {
+    ist(refs("$x = 1; function f() { $x = 2; return $|x; }"), "$x = 1; function f() { $*[x] = 2; return $[x]; }")
+  })
+
+  it("includes variables in arrow functions and closure use lists", () => {
+    ist(refs("function f() { $x = 1; $g = function() use ($x) { return $x; }; $h = fn() => $|x; }"),
+        "function f() { $*[x] = 1; $g = function() use ($[x]) { return $[x]; }; $h = fn() => $[x]; }")
+  })
+
+  it("doesn't include variables in nested functions", () => {
+    ist(refs("function f() { $|x = 1; function g() { return $x; } return $x; }"),
+        "function f() { $*[x] = 1; function g() { return $x; } return $[x]; }")
+  })
+
+  it("finds variables interpolated into heredocs", () => {
+    ist(refs("function f() { $|x = 1; return <<<EOT\n$x {$x} ${x} \\$x $xy\nEOT; }"),
+        "function f() { $*[x] = 1; return <<<EOT\n$[x] {$[x]} ${[x]} \\$x $xy\nEOT; }")
+    ist(refs("function f() { $x = 1; return <<<EOT\n{$|x}\nEOT; }"), "function f() { $*[x] = 1; return <<<EOT\n{$[x]}\nEOT; }")
+    ist(refs("function f() { $|x = 1; return <<<'EOT'\n$x\nEOT; }"), "function f() { $*[x] = 1; return <<<'EOT'\n$x\nEOT; }")
+  })
+
+  it("renames variables in heredocs", () => {
+    ist(rename("function f($|name) { return <<<EOT\nHello {$name}, $name!\nEOT; }", "user"),
+        "function f($user) { return <<<EOT\nHello {$user}, $user!\nEOT; }")
+  })
+
+  it("finds functions case-insensitively", () => {
+    ist(refs("function foo() {} FOO(); |foo();"), "function *[foo]() {} [FOO](); [foo]();")
+  })
+
+  it("finds classes under different qualifications", () => {
+    ist(refs("namespace A; class B {} new |B; new \\A\\B; function f(B $b): B {}"),
+        "namespace A; class *[B] {} new [B]; new \\A\\[B]; function f([B] $b): [B] {}")
+  })
+
+  it("finds class members", () => {
+    ist(refs("class C { public $p; function m() { return $this->|p; } } $c = new C; $c->p;"),
+        "class C { public $*[p]; function m() { return $this->[p]; } } $c = new C; $c->[p];")
+    ist(refs("class C { const K = 1; static function s() { return self::|K; } }"),
+        "class C { const *[K] = 1; static function s() { return self::[K]; } }")
+  })
+
+  it("finds constants", () => {
+    ist(refs("namespace N; const MAX = 1; echo MAX + |MAX;"), "namespace N; const *[MAX] = 1; echo [MAX] + [MAX];")
+  })
+
+  it("has no definition for built-in symbols", () => {
+    ist(refs("echo |strlen('a'); echo strlen('b');"), "echo [strlen]('a'); echo [strlen]('b');")
+  })
+
+  it("returns null when there is no symbol", () => {
+    ist(refs("$x = 1; echo |;"), null)
+  })
+})
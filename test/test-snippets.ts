@@ -0,0 +1,70 @@
+import ist from "ist"
+import {EditorState, TransactionSpec} from "@codemirror/state"
+import {EditorView} from "@codemirror/view"
+import {CompletionContext, CompletionResult} from "@codemirror/autocomplete"
+import {php, PHPSnippet, snippetCompletionSource} from "@codemirror/lang-php"
+
+const custom: readonly PHPSnippet[] = [
+  {label: "route", template: "Route::get('${}')", context: "statement"},
+  {label: "case", detail: "enum case", template: "case ${Name};", context: "member"}
+]
+
+function complete(doc: string) {
+  let cur = doc.indexOf("|")
+  doc = doc.slice(0, cur) + doc.slice(cur + 1)
+  let state = EditorState.create({doc, selection: {anchor: cur}, extensions: php({plain: true, snippets: custom})})
+  return {cur, state, result: snippetCompletionSource(new CompletionContext(state, cur, true)) as CompletionResult | null}
+}
+
+// List the labels of the snippets offered at the `|` marker.
+function labels(doc: string) {
+  let {result} = complete(doc)
+  return result ? result.options.map(o => o.label).filter((l, i, a) => a.indexOf(l) == i).join(" ") : ""
+}
+
+// Apply the snippet with the given label and detail at the `|`
+// marker, and return the document with the selected field marked by
+// brackets.
+function apply(doc: string, label: string, detail?: string) {
+  let {cur, state, result} = complete(doc)
+  let option = result!.options.find(o => o.label == label && (detail == null || o.detail == detail))!
+  let view = {get state() { return state }, dispatch(spec: TransactionSpec) { state = state.update(spec).state }}
+  if (typeof option.apply == "function") option.apply(view as EditorView, option, result!.from, cur)
+  let {from, to} = state.selection.main, text = state.doc.toString()
+  return text.slice(0, from) + "[" + text.slice(from, to) + "]" + text.slice(to)
+}
+
+describe("snippetCompletionSource", () => {
+  it("offers file-level snippets only outside namespace blocks", () => {
+    ist(/\bnamespace\b/.test(labels("na|")))
+    ist(/\bdeclare\b/.test(labels("namespace A { na| }")), false)
+    ist(/\bclass\b/.test(labels("namespace A { cl| }")))
+  })
+
+  it("offers statement snippets in functions", () => {
+    let found = labels("function f() { fo| }")
+    ist(/\bforeach\b/.test(found))
+    ist(/\bclass\b/.test(found), false)
+    ist(/\broute\b/.test(found))
+  })
+
+  it("offers only expression snippets in expressions", () => {
+    ist(labels("f(1, fn|)"), "require require_once include include_once match fn function")
+  })
+
+  it("offers class member snippets by class kind", () => {
+    ist(labels("class C { fu| }"), "function __construct getter setter test case")
+    ist(labels("interface I { ca| }"), "case")
+    ist(labels("enum E { ca| }"), "case")
+  })
+
+  it("puts declaration braces on their own line", () => {
+    ist(apply("cl|", "class"), "class [name]\n{\n  \n}")
+    ist(apply("if ($a) {\n  fu|\n}", "function", "definition"), "if ($a) {\n  function [name](params)\n  {\n    \n  }\n}")
+    ist(apply("class C {\n    fun|\n}", "function", "method"), "class C {\n    public function [name](params): void\n    {\n      \n    }\n}")
+  })
+
+  it("keeps braces of control structures on the same line", () => {
+    ist(apply("function f() {\n  fo|\n}", "foreach"), "function f() {\n  foreach ([collection] as name) {\n    \n  }\n}")
+  })
+})